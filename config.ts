@@ -1,4 +1,5 @@
-import { join } from 'path';
+import { join, resolve } from 'path';
+import { getServerConfig } from './server-config.js';
 
 /**
  * Centralized configuration for SST MCP Server paths and constants
@@ -8,11 +9,28 @@ export class SSTConfig {
   static readonly SST_DIR = '.sst';
   
   // File names
-  static readonly LOG_FILE = 'sst-mcp.log';
-  static readonly DEPLOY_LOG_FILE = 'sst-deploy.log';
   static readonly PID_FILE = 'sst-dev.pid';
+  // Written by the start.ts supervisor
+  static readonly DEV_STATE_FILE = 'sst-dev-state.json';
   static readonly ENV_FILE = 'env.sh';
+  // Holds the name of the active env profile
+  static readonly ENV_PROFILE_FILE = 'env-profile';
   static readonly OUTPUTS_FILE = 'outputs.json';
+  static readonly OUTPUTS_DIR = 'outputs';
+  static readonly PAYLOADS_DIR = 'payloads';
+  static readonly DEPLOYMENTS_FILE = 'deployments.jsonl';
+  static readonly DEPLOYMENTS_DIR = 'deployments';
+  static readonly POLICY_FILE = 'mcp-policy.json';
+  // Executables sst-shell-exec may run; maintained by hand, never written by the server
+  static readonly SHELL_POLICY_FILE = 'mcp-shell-policy.json';
+  // Extra patterns masked in logs and tool responses; maintained by hand, never written by the server
+  static readonly REDACTION_FILE = 'mcp-redaction.json';
+  // What to do when sst.config.ts or infra/ changes; maintained by hand, never written by the server
+  static readonly INFRA_WATCH_FILE = 'mcp-infra-watch.json';
+  // Infra changes not yet deployed, written by the start.ts watcher
+  static readonly INFRA_PENDING_FILE = 'infra-pending.json';
+  // Written by SST itself with the personal stage name
+  static readonly STAGE_FILE = 'stage';
   static readonly CONFIG_FILE = 'sst.config.ts';
   static readonly PACKAGE_JSON = 'package.json';
   static readonly INFRA_DIR = 'infra';
@@ -23,14 +41,44 @@ export class SSTConfig {
   static readonly NPX_COMMAND = 'npx';
   static readonly TSX_COMMAND = 'tsx';
 
-  // SST command arguments
-  static readonly SST_DEV_ARGS = ['dev', '--mode=mono'];
+  // SST command arguments (the dev arguments are the sstDevArgs setting)
   static readonly SST_DEPLOY_ARGS = (stage: string) => ['deploy', '--stage', stage];
   static readonly SST_REMOVE_ARGS = (stage: string) => ['remove', '--stage', stage];
 
   // Default values
   static readonly DEFAULT_STAGE = 'dev';
-  static readonly DEFAULT_LOG_LINES = 50;
+  // The profile stored in env.sh; any other profile lives in env.<profile>.sh
+  static readonly DEFAULT_ENV_PROFILE = 'default';
+  static readonly RESOURCE_LOG_LINES = 1000;
+  // Time between SIGTERM and SIGKILL when cancelling an operation
+  static readonly KILL_GRACE_MS = 5000;
+  // Lifetime of a confirmation token for a protected stage
+  static readonly CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+  // Restart policy for sst dev when it exits on its own
+  static readonly DEV_MAX_RESTARTS = 5;
+  static readonly DEV_RESTART_BACKOFF_MS = 1000;
+  static readonly DEV_MAX_RESTART_BACKOFF_MS = 30000;
+  // A child that ran this long counts as healthy again and resets the crash-loop count
+  static readonly DEV_STABLE_MS = 60000;
+  // Default wait for start-sst-dev with wait: true
+  static readonly DEV_READY_TIMEOUT_MS = 5 * 60 * 1000;
+  // How much of each stream sst-shell-exec returns
+  static readonly SHELL_OUTPUT_MAX_CHARS = 100000;
+  // Known secret values shorter than this are not masked
+  static readonly REDACT_MIN_VALUE_LENGTH = 6;
+  // Output without a newline is redacted and passed on once this much is held back
+  static readonly REDACT_MAX_PENDING_CHARS = 64 * 1024;
+  // How long sst dev output waits for the stage's secret values before it is passed on anyway
+  static readonly REDACT_SECRETS_WAIT_MS = 5000;
+  // Quiet period before a burst of sst.config.ts / infra/ changes is reported
+  static readonly INFRA_CHANGE_DEBOUNCE_MS = 500;
+  // sst-mcp.log is moved to .sst/logs/ once it reaches this size or age
+  static readonly LOG_MAX_BYTES = 10 * 1024 * 1024;
+  static readonly LOG_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+  // Rotated logs, and deployment run logs, kept per workspace
+  static readonly LOG_MAX_FILES = 20;
+  // How long to wait for sst dev to print a live invocation's logs after it returns
+  static readonly LIVE_LOG_WAIT_MS = 2000;
 
   /**
    * Get the .sst directory path for a workspace
@@ -40,17 +88,17 @@ export class SSTConfig {
   }
 
   /**
-   * Get the main log file path
+   * Get the main log file path (logFile setting, default .sst/sst-mcp.log)
    */
   static getLogPath(workspaceRoot: string): string {
-    return join(this.getSSTDir(workspaceRoot), this.LOG_FILE);
+    return resolve(workspaceRoot, getServerConfig(workspaceRoot).logFile);
   }
 
   /**
-   * Get the deploy log file path
+   * Get the directory holding rotated sst-mcp.log files (logArchiveDir setting, default .sst/logs)
    */
-  static getDeployLogPath(workspaceRoot: string): string {
-    return join(this.getSSTDir(workspaceRoot), this.DEPLOY_LOG_FILE);
+  static getLogArchiveDir(workspaceRoot: string): string {
+    return resolve(workspaceRoot, getServerConfig(workspaceRoot).logArchiveDir);
   }
 
   /**
@@ -61,10 +109,24 @@ export class SSTConfig {
   }
 
   /**
-   * Get the env.sh file path
+   * Get the dev supervisor state file path
    */
-  static getEnvPath(workspaceRoot: string): string {
-    return join(workspaceRoot, this.ENV_FILE);
+  static getDevStatePath(workspaceRoot: string): string {
+    return join(this.getSSTDir(workspaceRoot), this.DEV_STATE_FILE);
+  }
+
+  /**
+   * Get the env file path of a profile (env.sh for the default profile)
+   */
+  static getEnvPath(workspaceRoot: string, profile: string = this.DEFAULT_ENV_PROFILE): string {
+    return join(workspaceRoot, profile === this.DEFAULT_ENV_PROFILE ? this.ENV_FILE : `env.${profile}.sh`);
+  }
+
+  /**
+   * Get the path of the file naming the active env profile
+   */
+  static getEnvProfilePath(workspaceRoot: string): string {
+    return join(this.getSSTDir(workspaceRoot), this.ENV_PROFILE_FILE);
   }
 
   /**
@@ -74,6 +136,76 @@ export class SSTConfig {
     return join(this.getSSTDir(workspaceRoot), this.OUTPUTS_FILE);
   }
 
+  /**
+   * Get the directory holding each stage's saved outputs (<stage>.json)
+   */
+  static getStageOutputsDir(workspaceRoot: string): string {
+    return join(this.getSSTDir(workspaceRoot), this.OUTPUTS_DIR);
+  }
+
+  /**
+   * Get the directory holding saved Lambda payloads (<name>.json)
+   */
+  static getPayloadsDir(workspaceRoot: string): string {
+    return join(this.getSSTDir(workspaceRoot), this.PAYLOADS_DIR);
+  }
+
+  /**
+   * Get the deployment ledger (JSONL) file path
+   */
+  static getDeploymentLedgerPath(workspaceRoot: string): string {
+    return join(this.getSSTDir(workspaceRoot), this.DEPLOYMENTS_FILE);
+  }
+
+  /**
+   * Get the directory holding each deployment run's captured output
+   */
+  static getDeploymentOutputDir(workspaceRoot: string): string {
+    return join(this.getSSTDir(workspaceRoot), this.DEPLOYMENTS_DIR);
+  }
+
+  /**
+   * Get the policy file path (protected stages)
+   */
+  static getPolicyPath(workspaceRoot: string): string {
+    return join(this.getSSTDir(workspaceRoot), this.POLICY_FILE);
+  }
+
+  /**
+   * Get the shell policy file path (sst-shell-exec allow/deny lists)
+   */
+  static getShellPolicyPath(workspaceRoot: string): string {
+    return join(this.getSSTDir(workspaceRoot), this.SHELL_POLICY_FILE);
+  }
+
+  /**
+   * Get the redaction patterns file path
+   */
+  static getRedactionPath(workspaceRoot: string): string {
+    return join(this.getSSTDir(workspaceRoot), this.REDACTION_FILE);
+  }
+
+  /**
+   * Get the infra watch settings file path
+   */
+  static getInfraWatchPath(workspaceRoot: string): string {
+    return join(this.getSSTDir(workspaceRoot), this.INFRA_WATCH_FILE);
+  }
+
+  /**
+   * Get the path of the pending infra change record
+   */
+  static getInfraPendingPath(workspaceRoot: string): string {
+    return join(this.getSSTDir(workspaceRoot), this.INFRA_PENDING_FILE);
+  }
+
+  /**
+   * Get the path of SST's personal stage file
+   */
+  static getStageFilePath(workspaceRoot: string): string {
+    return join(this.getSSTDir(workspaceRoot), this.STAGE_FILE);
+  }
+
   /**
    * Get the sst.config.ts file path
    */
@@ -1,12 +1,17 @@
 #!/usr/bin/env node
 
 import { spawn } from 'child_process';
-import { createWriteStream, promises as fsPromises } from 'fs';
+import { createWriteStream } from 'fs';
 import path from 'path';
 import yargs from 'yargs';
 import { hideBin } from 'yargs/helpers';
 import stripAnsi from 'strip-ansi';
 import { SSTConfig } from './config.js';
+import { saveStageOutputs } from './outputs.js';
+import { finishDeploymentRecord, startDeploymentRecord } from './deployments.js';
+import { pruneDeploymentLogs } from './log-files.js';
+import { Redactor } from './redact.js';
+import { resolveSSTCommand } from './sst-command.js';
 
 // Parse command line arguments
 const argv = yargs(hideBin(process.argv))
@@ -27,45 +32,64 @@ const argv = yargs(hideBin(process.argv))
 
 const projectRoot = path.resolve(argv.projectRoot as string);
 const stage = argv.stage as string;
-const logFilePath = SSTConfig.getDeployLogPath(projectRoot);
 
 async function deploySST() {
   console.log(`Starting SST deployment to stage: ${stage}...`);
   
-  await fsPromises.mkdir(path.dirname(logFilePath), { recursive: true });
-  const logStream = createWriteStream(logFilePath, { flags: 'a' });
-  
-  const timestamp = new Date().toISOString();
-  logStream.write(`\n=== SST Deploy Started at ${timestamp} (stage: ${stage}) ===\n`);
+  const redactor = new Redactor();
+  redactor.loadWorkspace(projectRoot);
+  try {
+    await redactor.loadStageSecrets(projectRoot, stage);
+  } catch (error) {
+    console.warn(`Could not load secrets to redact: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  // Recorded like sst-deploy, so the run shows up in list-sst-deployments with its own log
+  pruneDeploymentLogs(projectRoot);
+  const deployment = await startDeploymentRecord(projectRoot, 'sst-deploy', stage);
+  const runLog = createWriteStream(deployment.outputPath, { flags: 'a' });
+  let finished = false;
+  const finish = (code: number | null, error?: string) => {
+    if (finished) return;
+    finished = true;
+    runLog.end();
+    finishDeploymentRecord(projectRoot, deployment, code, error);
+  };
 
   return new Promise<void>((resolve, reject) => {
-    const deployProcess = spawn(SSTConfig.NPX_COMMAND, [SSTConfig.SST_COMMAND, ...SSTConfig.SST_DEPLOY_ARGS(stage)], {
+    const sst = resolveSSTCommand(projectRoot);
+    const deployProcess = spawn(sst.command, [...sst.args, ...SSTConfig.SST_DEPLOY_ARGS(stage)], {
       stdio: ['pipe', 'pipe', 'pipe'],
       cwd: projectRoot,
       env: process.env,
     });
 
-    deployProcess.stdout?.on('data', (data: Buffer) => {
-      const text = data.toString();
+    // Redacted a line at a time; what is left of a line is passed on at exit
+    const stdoutLines = redactor.lineBuffer();
+    const stderrLines = redactor.lineBuffer();
+    const forward = (text: string, target: NodeJS.WriteStream) => {
+      if (!text) return;
       const cleanedData = stripAnsi(text);
-      process.stdout.write(text);
-      logStream.write(cleanedData);
-    });
+      target.write(text);
+      runLog.write(cleanedData);
+    };
 
-    deployProcess.stderr?.on('data', (data: Buffer) => {
-      const text = data.toString();
-      const cleanedData = stripAnsi(text);
-      process.stderr.write(text);
-      logStream.write(cleanedData);
-    });
+    deployProcess.stdout?.on('data', (data: Buffer) => forward(stdoutLines.write(data.toString()), process.stdout));
+    deployProcess.stderr?.on('data', (data: Buffer) => forward(stderrLines.write(data.toString()), process.stderr));
+
+    deployProcess.on('close', (code) => {
+      forward(stdoutLines.flush(), process.stdout);
+      forward(stderrLines.flush(), process.stderr);
+      finish(code);
 
-    deployProcess.on('exit', (code) => {
-      const timestamp = new Date().toISOString();
-      const message = `\n=== SST Deploy Ended at ${timestamp} with code ${code} ===\n`;
-      logStream.write(message);
-      logStream.end();
-      
       if (code === 0) {
+        try {
+          if (saveStageOutputs(projectRoot, stage)) {
+            console.log(`Saved outputs for stage ${stage}`);
+          }
+        } catch (error) {
+          console.warn(`Failed to save outputs for stage ${stage}: ${error instanceof Error ? error.message : String(error)}`);
+        }
         console.log('SST deployment completed successfully');
         resolve();
       } else {
@@ -74,10 +98,7 @@ async function deploySST() {
     });
 
     deployProcess.on('error', (error) => {
-      const timestamp = new Date().toISOString();
-      const message = `\n=== SST Deploy Error at ${timestamp}: ${error.message} ===\n`;
-      logStream.write(message);
-      logStream.end();
+      finish(null, error.message);
       reject(error);
     });
   });
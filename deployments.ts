@@ -0,0 +1,136 @@
+import { execFile } from 'child_process';
+import { randomUUID } from 'crypto';
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { SSTConfig } from './config.js';
+
+export type DeploymentTool = 'sst-deploy' | 'remove-sst-stage' | 'sst-restart-for-infra';
+
+export type DeploymentStatus = 'running' | 'succeeded' | 'failed';
+
+export interface GitInfo {
+  commit: string | null;
+  branch: string | null;
+  dirty: boolean | null;
+}
+
+export interface DeploymentRecord {
+  id: string;
+  tool: DeploymentTool;
+  stage: string;
+  status: DeploymentStatus;
+  startedAt: string;
+  endedAt: string | null;
+  durationMs: number | null;
+  exitCode: number | null;
+  error: string | null;
+  git: GitInfo;
+  /** Output captured for this run only */
+  outputPath: string;
+}
+
+// A git call stuck on a lock or a credential prompt must not hold up the deploy
+const GIT_TIMEOUT_MS = 5000;
+
+function runGit(workspaceRoot: string, args: string[]): Promise<string | null> {
+  return new Promise(resolve => {
+    execFile('git', args, { cwd: workspaceRoot, encoding: 'utf8', timeout: GIT_TIMEOUT_MS }, (error, stdout) => {
+      resolve(error ? null : stdout.trim());
+    });
+  });
+}
+
+/**
+ * Read commit, branch and dirty state; all null outside a git repository
+ */
+export async function getGitInfo(workspaceRoot: string): Promise<GitInfo> {
+  const commit = await runGit(workspaceRoot, ['rev-parse', 'HEAD']);
+  if (commit === null) {
+    return { commit: null, branch: null, dirty: null };
+  }
+
+  const [branch, status] = await Promise.all([
+    runGit(workspaceRoot, ['rev-parse', '--abbrev-ref', 'HEAD']),
+    runGit(workspaceRoot, ['status', '--porcelain']),
+  ]);
+
+  return {
+    commit,
+    branch: branch === 'HEAD' ? null : branch,
+    dirty: status === null ? null : status.length > 0,
+  };
+}
+
+/**
+ * Create the record for a run that is about to start and append it to the ledger
+ */
+export async function startDeploymentRecord(workspaceRoot: string, tool: DeploymentTool, stage: string): Promise<DeploymentRecord> {
+  const startedAt = new Date();
+  const id = `${startedAt.toISOString().replace(/[-:]/g, '').replace(/\.\d+/, '')}-${randomUUID().slice(0, 8)}`;
+
+  mkdirSync(SSTConfig.getDeploymentOutputDir(workspaceRoot), { recursive: true });
+
+  const record: DeploymentRecord = {
+    id,
+    tool,
+    stage,
+    status: 'running',
+    startedAt: startedAt.toISOString(),
+    endedAt: null,
+    durationMs: null,
+    exitCode: null,
+    error: null,
+    git: await getGitInfo(workspaceRoot),
+    outputPath: join(SSTConfig.getDeploymentOutputDir(workspaceRoot), `${id}.log`),
+  };
+
+  appendFileSync(SSTConfig.getDeploymentLedgerPath(workspaceRoot), JSON.stringify(record) + '\n', 'utf8');
+  return record;
+}
+
+/**
+ * Append the final state of a run. The ledger keeps both lines; readers merge them by id.
+ */
+export function finishDeploymentRecord(
+  workspaceRoot: string,
+  record: DeploymentRecord,
+  exitCode: number | null,
+  error?: string
+): DeploymentRecord {
+  const endedAt = new Date();
+  const finished: DeploymentRecord = {
+    ...record,
+    status: exitCode === 0 && !error ? 'succeeded' : 'failed',
+    endedAt: endedAt.toISOString(),
+    durationMs: endedAt.getTime() - Date.parse(record.startedAt),
+    exitCode,
+    error: error ?? null,
+  };
+
+  appendFileSync(SSTConfig.getDeploymentLedgerPath(workspaceRoot), JSON.stringify(finished) + '\n', 'utf8');
+  return finished;
+}
+
+/**
+ * Read all runs, newest first. Later lines for the same id replace earlier ones;
+ * malformed lines are skipped.
+ */
+export function readDeploymentRecords(workspaceRoot: string): DeploymentRecord[] {
+  const ledgerPath = SSTConfig.getDeploymentLedgerPath(workspaceRoot);
+  if (!existsSync(ledgerPath)) return [];
+
+  const records = new Map<string, DeploymentRecord>();
+  for (const line of readFileSync(ledgerPath, 'utf8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const record = JSON.parse(line) as DeploymentRecord;
+      if (record && typeof record.id === 'string') {
+        records.set(record.id, record);
+      }
+    } catch {
+      // Skip partial writes
+    }
+  }
+
+  return Array.from(records.values()).sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
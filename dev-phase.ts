@@ -0,0 +1,103 @@
+import stripAnsi from 'strip-ansi';
+
+export type DevPhase = 'starting' | 'bundling' | 'deploying' | 'ready' | 'failed' | 'exited';
+
+export interface DevPhaseSnapshot {
+  phase: DevPhase;
+  since: string;
+  /** Output line that moved the session into this phase */
+  line: string | null;
+  /** When the session was last ready */
+  readyAt: string | null;
+  /** Error lines from the most recent failure */
+  errors: string[];
+}
+
+const MAX_ERROR_LINES = 20;
+
+// Checked in order against each line of sst dev output; first match wins.
+//   ~  Deploying            ✓  Complete            ✕  Failed
+// start.ts prints "Starting SST dev process" whenever it (re)starts the child.
+// Failures only count on SST's own status lines and build errors, anchored at
+// the start: function output in mono mode ("|  +3ms  Error: ...") must not fail
+// the session. The lines after a failure are kept as its detail.
+const PHASE_PATTERNS: Array<[DevPhase, RegExp]> = [
+  ['starting', /^Starting SST dev process\b/],
+  ['failed', /^[✕✗×]\s+(?:Build\s+)?Failed\b|^Build failed\b|^✘ \[ERROR\]|^(?:\S+\(\d+,\d+\): )?error TS\d+\b/],
+  ['ready', /^\W*[✓✔]\s+(?:Complete|Deployed)\b|^\W*Complete\s*$/],
+  ['deploying', /^\W*Deploying\b|\bDeploying\.\.\./],
+  ['bundling', /^\W*(?:Bundling|Building|Build)\b|\besbuild\b/],
+];
+
+/**
+ * Follows sst dev output and tracks which phase the session is in.
+ * Output is fed in as it arrives; partial lines are held until complete.
+ */
+export class DevPhaseTracker {
+  private current: DevPhaseSnapshot;
+  private pending = '';
+  private listeners = new Set<(snapshot: DevPhaseSnapshot) => void>();
+
+  constructor() {
+    this.current = { phase: 'starting', since: new Date().toISOString(), line: null, readyAt: null, errors: [] };
+  }
+
+  get snapshot(): DevPhaseSnapshot {
+    return { ...this.current, errors: [...this.current.errors] };
+  }
+
+  feed(chunk: string): void {
+    const lines = (this.pending + stripAnsi(chunk)).split(/\r?\n/);
+    this.pending = lines.pop() ?? '';
+    for (const line of lines) this.handleLine(line);
+  }
+
+  /** The process has gone; nothing will change the phase after this */
+  exit(code: number | null): void {
+    if (this.pending) this.handleLine(this.pending);
+    this.pending = '';
+    this.transition('exited', `exited with code ${code}`);
+  }
+
+  /**
+   * Call `listener` on every phase change until the returned function is called
+   */
+  onChange(listener: (snapshot: DevPhaseSnapshot) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private handleLine(line: string): void {
+    const text = line.trim();
+    if (!text || this.current.phase === 'exited') return;
+
+    const match = PHASE_PATTERNS.find(([, pattern]) => pattern.test(text));
+    if (!match) {
+      // Keep the detail lines that follow a failure (stack, file:line, hints)
+      if (this.current.phase === 'failed' && this.current.errors.length < MAX_ERROR_LINES) {
+        this.current.errors.push(text);
+      }
+      return;
+    }
+
+    const [phase] = match;
+    if (phase === 'failed' && this.current.phase === 'failed') {
+      if (this.current.errors.length < MAX_ERROR_LINES) this.current.errors.push(text);
+      return;
+    }
+    this.transition(phase, text);
+  }
+
+  private transition(phase: DevPhase, line: string): void {
+    if (phase === this.current.phase && phase !== 'starting') return;
+    const now = new Date().toISOString();
+    this.current = {
+      phase,
+      since: now,
+      line,
+      readyAt: phase === 'ready' ? now : this.current.readyAt,
+      errors: phase === 'failed' ? [line] : [],
+    };
+    for (const listener of this.listeners) listener(this.snapshot);
+  }
+}
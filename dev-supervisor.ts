@@ -0,0 +1,91 @@
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { SSTConfig } from './config.js';
+import { isProcessAlive } from './process-tree.js';
+
+export type DevState = 'running' | 'restarting' | 'crashed' | 'stopped';
+
+export interface RestartPolicy {
+  /** Restarts allowed in a row before giving up; 0 disables auto-restart */
+  maxRestarts: number;
+  /** Delay before the first restart, doubled for each further one */
+  backoffMs: number;
+  maxBackoffMs: number;
+  /** Run time after which the child counts as healthy again */
+  stableMs: number;
+}
+
+export interface DevExit {
+  code: number | null;
+  signal: string | null;
+  reason: string;
+  at: string;
+}
+
+/**
+ * Contents of .sst/sst-dev-state.json
+ */
+export interface DevSupervisorState {
+  state: DevState;
+  /** PID of start.ts */
+  supervisorPid: number;
+  /** PID of the current sst dev process, null between restarts */
+  childPid: number | null;
+  profile: string;
+  /** Times sst dev was started again after the first start */
+  restartCount: number;
+  /** Unexpected exits since the child last ran for `policy.stableMs` */
+  consecutiveFailures: number;
+  lastExit: DevExit | null;
+  nextRestartAt: string | null;
+  childStartedAt: string | null;
+  updatedAt: string;
+  policy: RestartPolicy;
+}
+
+export const DEFAULT_RESTART_POLICY: RestartPolicy = {
+  maxRestarts: SSTConfig.DEV_MAX_RESTARTS,
+  backoffMs: SSTConfig.DEV_RESTART_BACKOFF_MS,
+  maxBackoffMs: SSTConfig.DEV_MAX_RESTART_BACKOFF_MS,
+  stableMs: SSTConfig.DEV_STABLE_MS,
+};
+
+/**
+ * Delay before restart number `failures` (1-based) in a row
+ */
+export function restartDelay(policy: RestartPolicy, failures: number): number {
+  return Math.min(policy.backoffMs * 2 ** Math.max(failures - 1, 0), policy.maxBackoffMs);
+}
+
+export function describeExit(code: number | null, signal: string | null): string {
+  return signal ? `killed by ${signal}` : `exited with code ${code}`;
+}
+
+/**
+ * Write the state file atomically so readers never see half a file
+ */
+export function writeDevState(workspaceRoot: string, state: DevSupervisorState): void {
+  const path = SSTConfig.getDevStatePath(workspaceRoot);
+  const tmpPath = `${path}.${process.pid}.tmp`;
+  writeFileSync(tmpPath, JSON.stringify(state, null, 2) + '\n', 'utf8');
+  renameSync(tmpPath, path);
+}
+
+/**
+ * Read the state file. A supervisor that died without cleaning up is reported as stopped.
+ */
+export function readDevState(workspaceRoot: string): DevSupervisorState | null {
+  const path = SSTConfig.getDevStatePath(workspaceRoot);
+  if (!existsSync(path)) return null;
+
+  let state: DevSupervisorState;
+  try {
+    state = JSON.parse(readFileSync(path, 'utf8'));
+  } catch {
+    return null;
+  }
+
+  if (state.state !== 'stopped' && !isProcessAlive(state.supervisorPid)) {
+    return { ...state, state: 'stopped', childPid: null, nextRestartAt: null };
+  }
+  return state;
+}
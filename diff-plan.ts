@@ -0,0 +1,213 @@
+import stripAnsi from 'strip-ansi';
+
+export type DiffAction = 'create' | 'update' | 'replace' | 'delete';
+
+export const DIFF_ACTIONS: DiffAction[] = ['create', 'update', 'replace', 'delete'];
+
+export interface ResourceChange {
+  /** Pulumi URN; rebuilt from app, stage and type when the output only shows names */
+  urn: string | null;
+  name: string;
+  type: string;
+  action: DiffAction;
+  /** Top-level properties that change, e.g. "environment" or "code" */
+  properties: string[];
+}
+
+export interface DiffPlan {
+  app: string | null;
+  stage: string | null;
+  changes: ResourceChange[];
+  summary: Record<DiffAction, number> & { total: number };
+  /** True if any resource is deleted or replaced */
+  destructive: boolean;
+}
+
+// SST prints one line per resource, e.g.
+//   |  Create      MyBucket sst:aws:Bucket
+//   |  Updated     MyApi sst:aws:Function → MyApiFunction aws:lambda:Function
+//   ~  MyApi sst:aws:Function
+const VERB_LINE = /^\s*\|?\s*(Creat\w*|Updat\w*|Replac\w*|Delet\w*)\s+(\S.*)$/;
+const SYMBOL_LINE = /^[\s|]*(\+-|-\+|\+\+|--|\+|~|-)\s+(\S.*)$/;
+
+// Pulumi preview prints the type and operation, then the URN on its own line:
+//   ~ aws:lambda/function:Function: (update)
+//       [urn=urn:pulumi:dev::app::sst:aws:Function$aws:lambda/function:Function::MyApiFunction]
+const PULUMI_LINE = /^\s*(\+-|-\+|\+\+|--|\+|~|-)\s*([\w$:/.-]+): \(([\w-]+)\)/;
+const URN_LINE = /\[urn=(urn:pulumi:[^\]\s]+)\]/;
+const STACK_TYPE = 'pulumi:pulumi:Stack';
+
+// Property lines sit under their resource, e.g. "    ~ environment: {" or "      + code"
+const PROPERTY_LINE = /^[\s|]*(\+-|-\+|\+|~|-)\s*\[?"?([A-Za-z_$@][\w$@.-]*)"?\]?\s*(?::|$)/;
+
+const APP_LINE = /^\s*(?:➜\s*)?App:\s+(\S+)/;
+const STAGE_LINE = /^\s*Stage:\s+(\S+)/;
+
+const SYMBOL_ACTIONS: Record<string, DiffAction> = {
+  '+': 'create',
+  '++': 'replace',
+  '+-': 'replace',
+  '-+': 'replace',
+  '--': 'replace',
+  '~': 'update',
+  '-': 'delete',
+};
+
+function actionFromWord(word: string): DiffAction | null {
+  const lower = word.toLowerCase();
+  if (lower.startsWith('creat')) return lower.includes('replace') ? 'replace' : 'create';
+  if (lower.startsWith('updat')) return 'update';
+  if (lower.startsWith('replac')) return 'replace';
+  if (lower.startsWith('delet')) return lower.includes('replace') ? 'replace' : 'delete';
+  return null;
+}
+
+/**
+ * Split "Name type" or "Parent parentType → Child childType" into the
+ * innermost name and the full parent$child type chain
+ */
+function parseResourceLabel(label: string): { name: string; types: string[] } | null {
+  const parts = label.split(/\s+(?:→|->)\s+/);
+  const types: string[] = [];
+  let name = '';
+
+  for (const part of parts) {
+    const tokens = part.trim().split(/\s+/);
+    if (tokens.length < 2) return null;
+    const type = tokens[tokens.length - 1];
+    if (!/^[\w-]+:[\w/:.-]*\w$/.test(type)) return null;
+    name = tokens.slice(0, -1).join(' ');
+    types.push(type);
+  }
+
+  return name ? { name, types } : null;
+}
+
+// Indentation after SST's optional "|" gutter
+function indentOf(line: string): number {
+  return line.replace(/^\s*\|/, '').search(/\S|$/);
+}
+
+function nameFromUrn(urn: string): string {
+  return urn.slice(urn.lastIndexOf('::') + 2);
+}
+
+function buildUrn(app: string | null, stage: string | null, types: string[], name: string): string | null {
+  return app && stage ? `urn:pulumi:${stage}::${app}::${types.join('$')}::${name}` : null;
+}
+
+/**
+ * Parse `sst diff` output into the resources that would change
+ */
+export function parseDiff(output: string): DiffPlan {
+  const changes: ResourceChange[] = [];
+  let app: string | null = null;
+  let stage: string | null = null;
+  let current: ResourceChange | null = null;
+  let currentIndent = 0;
+  // Only the first level of properties under a resource is reported
+  let propertyIndent: number | null = null;
+
+  const addChange = (change: ResourceChange, indent: number): ResourceChange => {
+    changes.push(change);
+    currentIndent = indent;
+    propertyIndent = null;
+    return change;
+  };
+
+  // Pulumi lists a replacement as create-replacement plus delete-replaced; keep one entry
+  const mergeByUrn = (change: ResourceChange): ResourceChange => {
+    const existing = changes.find(c => c !== change && c.urn === change.urn);
+    if (!existing) return change;
+    if (change.action === 'replace') existing.action = 'replace';
+    existing.properties.push(...change.properties.filter(p => !existing.properties.includes(p)));
+    changes.splice(changes.indexOf(change), 1);
+    return existing;
+  };
+
+  for (const line of stripAnsi(output).split('\n')) {
+    if (!line.trim()) continue;
+    const indent = indentOf(line);
+
+    const appMatch = line.match(APP_LINE);
+    if (appMatch) {
+      app = appMatch[1];
+      continue;
+    }
+    const stageMatch = line.match(STAGE_LINE);
+    if (stageMatch) {
+      stage = stageMatch[1];
+      continue;
+    }
+
+    const urnMatch = line.match(URN_LINE);
+    if (urnMatch) {
+      if (current && current.urn === null) {
+        current.urn = urnMatch[1];
+        current.name = nameFromUrn(urnMatch[1]);
+        current = mergeByUrn(current);
+      }
+      continue;
+    }
+
+    const pulumi = line.match(PULUMI_LINE);
+    if (pulumi) {
+      const action = actionFromWord(pulumi[3]);
+      current = action && pulumi[2] !== STACK_TYPE
+        ? addChange({ urn: null, name: pulumi[2], type: pulumi[2], action, properties: [] }, indent)
+        : null;
+      continue;
+    }
+
+    const verb = line.match(VERB_LINE);
+    const verbAction = verb ? actionFromWord(verb[1]) : null;
+    const verbLabel = verb ? parseResourceLabel(verb[2]) : null;
+    if (verbAction && verbLabel) {
+      current = addChange({
+        urn: buildUrn(app, stage, verbLabel.types, verbLabel.name),
+        name: verbLabel.name,
+        type: verbLabel.types[verbLabel.types.length - 1],
+        action: verbAction,
+        properties: [],
+      }, indent);
+      continue;
+    }
+
+    const symbol = line.match(SYMBOL_LINE);
+    const symbolLabel = symbol ? parseResourceLabel(symbol[2]) : null;
+    if (symbol && symbolLabel && (!current || indent <= currentIndent)) {
+      current = addChange({
+        urn: buildUrn(app, stage, symbolLabel.types, symbolLabel.name),
+        name: symbolLabel.name,
+        type: symbolLabel.types[symbolLabel.types.length - 1],
+        action: SYMBOL_ACTIONS[symbol[1]],
+        properties: [],
+      }, indent);
+      continue;
+    }
+
+    const property = line.match(PROPERTY_LINE);
+    if (current && property && indent > currentIndent) {
+      if (propertyIndent === null) propertyIndent = indent;
+      if (indent === propertyIndent) {
+        const key = property[2].split('.')[0];
+        if (!current.properties.includes(key)) current.properties.push(key);
+      }
+      continue;
+    }
+
+    // A line at column 0 that is not part of a resource ends the current block
+    if (!/^[\s|]/.test(line)) current = null;
+  }
+
+  const summary = { create: 0, update: 0, replace: 0, delete: 0, total: changes.length };
+  for (const change of changes) summary[change.action]++;
+
+  return {
+    app,
+    stage,
+    changes,
+    summary,
+    destructive: summary.replace > 0 || summary.delete > 0,
+  };
+}
@@ -0,0 +1,292 @@
+export interface EnvEntry {
+  key: string;
+  value: string;
+  exported: boolean;
+  /** 1-based line the assignment starts on */
+  line: number;
+}
+
+export interface EnvIssue {
+  line: number;
+  text: string;
+  message: string;
+}
+
+/**
+ * A run of the file's original text, with the assignment it holds if any.
+ * Joining every segment's raw text gives back the file unchanged.
+ */
+interface EnvSegment {
+  raw: string;
+  entry: EnvEntry | null;
+  /** Whitespace and comment after the value, kept when the value is rewritten */
+  trailing: string;
+}
+
+export interface ParsedEnv {
+  entries: EnvEntry[];
+  issues: EnvIssue[];
+  segments: EnvSegment[];
+}
+
+export interface EnvChanges {
+  set?: Record<string, string>;
+  unset?: string[];
+}
+
+export interface EnvUpdate {
+  content: string;
+  updated: string[];
+  added: string[];
+  removed: string[];
+  /** Keys asked to be unset that were not in the file */
+  missing: string[];
+}
+
+const KEY = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const ASSIGNMENT = /^(export\s+)?([A-Za-z_][A-Za-z0-9_]*)=/;
+// Names the sst dev process has always been given, e.g. "NEXT.PUBLIC-URL", though a shell rejects them
+const PROCESS_ENV_ASSIGNMENT = /^(export\s+)?([\w.-]+)=/;
+const LOOSE_ASSIGNMENT = /^(?:export\s+)?([^\s=#]+)=/;
+
+const SECRET_KEY = /secret|passw(?:or)?d|token|api_?key|private_?key|(?:^|_)key$|credential|signing|dsn|connection_?string/i;
+const SECRET_VALUE = [
+  /^(?:AKIA|ASIA)[A-Z0-9]{16}$/,
+  /^(?:sk|rk|pk)_(?:live|test)_/,
+  /^gh[pousr]_\w+/,
+  /^xox[abpr]-/,
+  /-----BEGIN [A-Z ]*PRIVATE KEY-----/,
+  /^eyJ[\w-]+\.[\w-]+\./,
+  /:\/\/[^/\s:@]+:[^/\s@]+@/,
+];
+
+export function isValidEnvKey(key: string): boolean {
+  return KEY.test(key);
+}
+
+/**
+ * Read a quoted or bare value starting at `pos`. Double quotes honour the
+ * shell escapes \" \\ \$ \` and line continuations; single quotes are literal.
+ */
+function readValue(content: string, pos: number): { value: string; end: number } | { error: string } {
+  const quote = content[pos];
+
+  if (quote === "'") {
+    const close = content.indexOf("'", pos + 1);
+    if (close < 0) return { error: 'Unterminated single quote' };
+    return { value: content.slice(pos + 1, close), end: close + 1 };
+  }
+
+  if (quote === '"') {
+    let value = '';
+    for (let idx = pos + 1; idx < content.length; idx++) {
+      const ch = content[idx];
+      if (ch === '\\' && idx + 1 < content.length) {
+        const next = content[idx + 1];
+        if (next === '\n') {
+          idx++;
+          continue;
+        }
+        if ('"\\$`'.includes(next)) {
+          value += next;
+          idx++;
+          continue;
+        }
+      }
+      if (ch === '"') return { value, end: idx + 1 };
+      value += ch;
+    }
+    return { error: 'Unterminated double quote' };
+  }
+
+  let value = '';
+  let idx = pos;
+  for (; idx < content.length && !/\s/.test(content[idx]); idx++) {
+    if (content[idx] === '\\' && idx + 1 < content.length && content[idx + 1] !== '\n') {
+      value += content[++idx];
+      continue;
+    }
+    value += content[idx];
+  }
+  return { value, end: idx };
+}
+
+/**
+ * Parse env.sh: `[export] KEY=value` lines, comments and blank lines.
+ * Anything else is kept as-is and reported in `issues`. With
+ * `processEnvKeys`, names with dots and dashes are read as variables too,
+ * for the environment of the sst dev process.
+ */
+export function parseEnv(content: string, { processEnvKeys = false }: { processEnvKeys?: boolean } = {}): ParsedEnv {
+  const assignment = processEnvKeys ? PROCESS_ENV_ASSIGNMENT : ASSIGNMENT;
+  const entries: EnvEntry[] = [];
+  const issues: EnvIssue[] = [];
+  const segments: EnvSegment[] = [];
+  let pos = 0;
+  let line = 1;
+
+  const lineEnd = (from: number) => {
+    const newline = content.indexOf('\n', from);
+    return newline < 0 ? content.length : newline + 1;
+  };
+  const push = (raw: string, entry: EnvEntry | null, trailing = '') => {
+    segments.push({ raw, entry, trailing });
+    pos += raw.length;
+    line += raw.split('\n').length - 1;
+  };
+
+  while (pos < content.length) {
+    const end = lineEnd(pos);
+    const text = content.slice(pos, end).replace(/\r?\n$/, '');
+    const trimmed = text.trim();
+
+    if (!trimmed || trimmed.startsWith('#')) {
+      push(content.slice(pos, end), null);
+      continue;
+    }
+
+    const indent = text.length - text.trimStart().length;
+    const match = trimmed.match(assignment);
+    if (!match) {
+      const loose = trimmed.match(LOOSE_ASSIGNMENT);
+      const message = loose ? `Invalid variable name "${loose[1]}"` : 'Not a variable assignment';
+      issues.push({ line, text, message });
+      push(content.slice(pos, end), null);
+      continue;
+    }
+
+    const valueStart = pos + indent + match[0].length;
+    const read = readValue(content, valueStart);
+    if ('error' in read) {
+      issues.push({ line, text, message: read.error });
+      push(content.slice(pos, end), null);
+      continue;
+    }
+
+    let value = read.value;
+    const restEnd = lineEnd(read.end);
+    let trailing = content.slice(read.end, restEnd).replace(/\r?\n$/, '');
+    if (trailing.trim() && !/^\s+#/.test(trailing)) {
+      if (content[valueStart] === '"' || content[valueStart] === "'") {
+        issues.push({ line, text, message: 'Unexpected text after the closing quote' });
+      } else {
+        // Older files wrote KEY=some value; keep the whole line as the value
+        issues.push({ line, text, message: 'Unquoted value contains spaces' });
+        value = content.slice(valueStart, restEnd).replace(/\r?\n$/, '').trim();
+      }
+      trailing = '';
+    }
+
+    const entry: EnvEntry = { key: match[2], value, exported: !!match[1], line };
+    const previous = entries.find(existing => existing.key === entry.key);
+    if (previous) {
+      issues.push({ line, text, message: `Duplicate of line ${previous.line}; the last assignment wins` });
+    }
+    entries.push(entry);
+    push(content.slice(pos, restEnd), entry, trailing);
+  }
+
+  return { entries, issues, segments };
+}
+
+/**
+ * Variables as the dev process sees them; later assignments win
+ */
+export function envToRecord(parsed: ParsedEnv): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const entry of parsed.entries) env[entry.key] = entry.value;
+  return env;
+}
+
+/**
+ * Quote a value for a double-quoted shell string
+ */
+export function quoteEnvValue(value: string): string {
+  return `"${value.replace(/["\\$`]/g, char => `\\${char}`)}"`;
+}
+
+export function formatEnvAssignment(key: string, value: string, exported = true): string {
+  return `${exported ? 'export ' : ''}${key}=${quoteEnvValue(value)}`;
+}
+
+/**
+ * Apply set/unset to env.sh content. Comments, ordering and untouched lines are
+ * kept byte for byte; a key assigned more than once keeps only its last line.
+ * Throws before changing anything if a key is not a valid shell name or the
+ * file has an unterminated quote.
+ */
+export function updateEnv(content: string, changes: EnvChanges): EnvUpdate {
+  const set = changes.set ?? {};
+  const unset = changes.unset ?? [];
+
+  const invalid = [...Object.keys(set), ...unset].filter(key => !isValidEnvKey(key));
+  if (invalid.length > 0) {
+    throw new Error(`Invalid variable name(s): ${invalid.join(', ')}. Use letters, digits and "_", not starting with a digit.`);
+  }
+  const both = unset.filter(key => Object.hasOwn(set, key));
+  if (both.length > 0) {
+    throw new Error(`Variable(s) both set and unset: ${both.join(', ')}`);
+  }
+  for (const [key, value] of Object.entries(set)) {
+    if (typeof value !== 'string') {
+      throw new Error(`Value of ${key} must be a string`);
+    }
+  }
+
+  const parsed = parseEnv(content);
+  // Anything written after an open quote would end up inside it
+  const unterminated = parsed.issues.find(issue => issue.message.startsWith('Unterminated'));
+  if (unterminated) {
+    throw new Error(`Line ${unterminated.line}: ${unterminated.message}. Fix env.sh before editing it.`);
+  }
+
+  const last = new Map<string, EnvEntry>();
+  for (const entry of parsed.entries) last.set(entry.key, entry);
+
+  const result: EnvUpdate = { content: '', updated: [], added: [], removed: [], missing: [] };
+  const output: string[] = [];
+
+  for (const segment of parsed.segments) {
+    const entry = segment.entry;
+    if (!entry) {
+      output.push(segment.raw);
+      continue;
+    }
+    if (unset.includes(entry.key)) {
+      if (!result.removed.includes(entry.key)) result.removed.push(entry.key);
+      continue;
+    }
+    if (Object.hasOwn(set, entry.key)) {
+      if (last.get(entry.key) !== entry) continue;
+      const newline = segment.raw.match(/\r?\n$/)?.[0] ?? '';
+      output.push(formatEnvAssignment(entry.key, set[entry.key], entry.exported) + segment.trailing + newline);
+      result.updated.push(entry.key);
+      continue;
+    }
+    output.push(segment.raw);
+  }
+
+  let text = output.join('');
+  const additions = Object.keys(set).filter(key => !last.has(key));
+  if (additions.length > 0) {
+    if (text && !text.endsWith('\n')) text += '\n';
+    text += additions.map(key => formatEnvAssignment(key, set[key]) + '\n').join('');
+    result.added = additions;
+  }
+
+  result.missing = unset.filter(key => !last.has(key));
+  result.content = text;
+  return result;
+}
+
+export function isSecretEnv(key: string, value: string): boolean {
+  return SECRET_KEY.test(key) || SECRET_VALUE.some(pattern => pattern.test(value));
+}
+
+/**
+ * Hide a secret value, keeping the last 4 characters of long ones so they can be told apart
+ */
+export function maskEnvValue(value: string): string {
+  if (!value) return value;
+  return value.length >= 16 ? `********${value.slice(-4)}` : '********';
+}
@@ -0,0 +1,90 @@
+import { copyFileSync, existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { SSTConfig } from './config.js';
+import { parseEnv } from './env-file.js';
+
+export interface EnvProfile {
+  name: string;
+  path: string;
+  exists: boolean;
+  active: boolean;
+  variableCount: number;
+}
+
+const PROFILE_NAME = /^[\w-]+$/;
+const PROFILE_FILE = /^env\.([\w-]+)\.sh$/;
+
+export function validateProfileName(name: string): void {
+  if (!PROFILE_NAME.test(name)) {
+    throw new Error(`Invalid profile name "${name}": use letters, digits, "_" and "-"`);
+  }
+}
+
+/**
+ * The profile start.ts loads: the one named in .sst/env-profile, else the default
+ */
+export function getActiveEnvProfile(workspaceRoot: string): string {
+  const markerPath = SSTConfig.getEnvProfilePath(workspaceRoot);
+  if (!existsSync(markerPath)) return SSTConfig.DEFAULT_ENV_PROFILE;
+  const name = readFileSync(markerPath, 'utf8').trim();
+  return name && PROFILE_NAME.test(name) ? name : SSTConfig.DEFAULT_ENV_PROFILE;
+}
+
+/**
+ * Make `name` the active profile. Every profile but the default must have a file.
+ */
+export function setActiveEnvProfile(workspaceRoot: string, name: string): void {
+  validateProfileName(name);
+  const envPath = SSTConfig.getEnvPath(workspaceRoot, name);
+  if (name !== SSTConfig.DEFAULT_ENV_PROFILE && !existsSync(envPath)) {
+    throw new Error(`Env profile "${name}" not found (${envPath}). Create it with create-sst-env-profile.`);
+  }
+  mkdirSync(SSTConfig.getSSTDir(workspaceRoot), { recursive: true });
+  writeFileSync(SSTConfig.getEnvProfilePath(workspaceRoot), `${name}\n`, 'utf8');
+}
+
+/**
+ * The default profile and every env.<profile>.sh in the workspace root
+ */
+export function listEnvProfiles(workspaceRoot: string): EnvProfile[] {
+  const active = getActiveEnvProfile(workspaceRoot);
+  const names = new Set([SSTConfig.DEFAULT_ENV_PROFILE, active]);
+  for (const file of existsSync(workspaceRoot) ? readdirSync(workspaceRoot) : []) {
+    const match = file.match(PROFILE_FILE);
+    if (match) names.add(match[1]);
+  }
+
+  return Array.from(names).sort().map(name => {
+    const path = SSTConfig.getEnvPath(workspaceRoot, name);
+    const exists = existsSync(path);
+    return {
+      name,
+      path,
+      exists,
+      active: name === active,
+      variableCount: exists ? new Set(parseEnv(readFileSync(path, 'utf8')).entries.map(entry => entry.key)).size : 0,
+    };
+  });
+}
+
+/**
+ * Create env.<name>.sh, empty or as a copy of another profile. Returns the file path.
+ */
+export function createEnvProfile(workspaceRoot: string, name: string, copyFrom?: string): string {
+  validateProfileName(name);
+  const path = SSTConfig.getEnvPath(workspaceRoot, name);
+  if (existsSync(path)) {
+    throw new Error(`Env profile "${name}" already exists (${path})`);
+  }
+
+  if (copyFrom !== undefined) {
+    validateProfileName(copyFrom);
+    const source = SSTConfig.getEnvPath(workspaceRoot, copyFrom);
+    if (!existsSync(source)) {
+      throw new Error(`Env profile "${copyFrom}" not found (${source})`);
+    }
+    copyFileSync(source, path);
+  } else {
+    writeFileSync(path, `# Env profile "${name}"\n`, 'utf8');
+  }
+  return path;
+}
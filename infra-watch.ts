@@ -0,0 +1,106 @@
+import { existsSync, readFileSync, renameSync, unlinkSync, writeFileSync } from 'fs';
+import { SSTConfig } from './config.js';
+
+/**
+ * What happens when sst.config.ts or infra/ changes while sst dev runs:
+ * nothing, a pending flag and notification, or sst-restart-for-infra
+ */
+export type InfraChangeMode = 'off' | 'notify' | 'redeploy';
+
+const INFRA_CHANGE_MODES: InfraChangeMode[] = ['off', 'notify', 'redeploy'];
+
+/**
+ * Contents of .sst/mcp-infra-watch.json
+ */
+export interface InfraWatchSettings {
+  mode: InfraChangeMode;
+  /** Stage redeployed in redeploy mode (default: SSTConfig.DEFAULT_STAGE) */
+  stage?: string;
+}
+
+/**
+ * Infra files changed since sst dev last deployed, kept until a redeploy
+ */
+export interface PendingInfraChange {
+  /** Paths relative to the workspace root */
+  files: string[];
+  firstChangedAt: string;
+  lastChangedAt: string;
+}
+
+export const DEFAULT_INFRA_WATCH: InfraWatchSettings = { mode: 'notify' };
+
+// start.ts prints this line so the MCP server can react to the change
+const CHANGE_LINE_PREFIX = 'Infra change detected: ';
+const CHANGE_LINE = /^Infra change detected: (.+)$/m;
+
+/**
+ * Read the workspace settings. Missing file means the defaults.
+ */
+export function loadInfraWatchSettings(workspaceRoot: string): InfraWatchSettings {
+  const settingsPath = SSTConfig.getInfraWatchPath(workspaceRoot);
+  if (!existsSync(settingsPath)) return { ...DEFAULT_INFRA_WATCH };
+
+  let parsed: Partial<InfraWatchSettings>;
+  try {
+    parsed = JSON.parse(readFileSync(settingsPath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Invalid infra watch file ${settingsPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const mode = parsed?.mode ?? DEFAULT_INFRA_WATCH.mode;
+  if (!INFRA_CHANGE_MODES.includes(mode)) {
+    throw new Error(`Invalid infra watch file ${settingsPath}: "mode" must be one of ${INFRA_CHANGE_MODES.join(', ')}`);
+  }
+  if (parsed.stage !== undefined && (typeof parsed.stage !== 'string' || !parsed.stage)) {
+    throw new Error(`Invalid infra watch file ${settingsPath}: "stage" must be a non-empty string`);
+  }
+
+  return { mode, stage: parsed.stage };
+}
+
+export function readPendingInfraChange(workspaceRoot: string): PendingInfraChange | null {
+  const pendingPath = SSTConfig.getInfraPendingPath(workspaceRoot);
+  if (!existsSync(pendingPath)) return null;
+  try {
+    return JSON.parse(readFileSync(pendingPath, 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Add changed files to the pending record, creating it if needed
+ */
+export function recordInfraChange(workspaceRoot: string, files: string[]): PendingInfraChange {
+  const now = new Date().toISOString();
+  const previous = readPendingInfraChange(workspaceRoot);
+  const pending: PendingInfraChange = {
+    files: [...new Set([...(previous?.files ?? []), ...files])].sort(),
+    firstChangedAt: previous?.firstChangedAt ?? now,
+    lastChangedAt: now,
+  };
+
+  const pendingPath = SSTConfig.getInfraPendingPath(workspaceRoot);
+  const tmpPath = `${pendingPath}.${process.pid}.tmp`;
+  writeFileSync(tmpPath, JSON.stringify(pending, null, 2) + '\n', 'utf8');
+  renameSync(tmpPath, pendingPath);
+  return pending;
+}
+
+export function clearPendingInfraChange(workspaceRoot: string): void {
+  const pendingPath = SSTConfig.getInfraPendingPath(workspaceRoot);
+  if (existsSync(pendingPath)) unlinkSync(pendingPath);
+}
+
+export function formatInfraChangeLine(files: string[]): string {
+  return CHANGE_LINE_PREFIX + files.join(', ');
+}
+
+/**
+ * Files named by an "Infra change detected" line in dev output, or null
+ */
+export function parseInfraChangeLine(output: string): string[] | null {
+  const match = output.match(CHANGE_LINE);
+  return match ? match[1].split(', ').map(file => file.trim()).filter(Boolean) : null;
+}
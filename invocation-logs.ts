@@ -0,0 +1,89 @@
+import stripAnsi from 'strip-ansi';
+
+export interface InvocationLogs {
+  /**
+   * How the lines were tied to the invocation: its request ID, an Invoke event
+   * naming the function, or the only Invoke event seen during the call.
+   * Null if nothing matched.
+   */
+  matchedBy: 'request-id' | 'function' | 'window' | null;
+  /** True once the end of the invocation (Done/Error event or runtime REPORT) was seen */
+  complete: boolean;
+  lines: string[];
+}
+
+// sst dev (mono) function events, e.g.
+//   |  Invoke      MyFunction
+//   |  +12ms       hello from the handler
+//   |  Done        35ms
+const INVOKE_EVENT = /^\W*Invoke\s{2,}(.+?)\s*$/;
+const END_EVENT = /^\W*(?:Done|Error)\s{2,}\S/;
+// Lambda runtime markers and console lines
+//   START RequestId: <id> Version: $LATEST
+//   <timestamp>\t<id>\tINFO\t<message>
+//   REPORT RequestId: <id> Duration: 12.34 ms ...
+const RUNTIME_MARKER = /\b(?:START|END|REPORT) RequestId: (\S+)/;
+const RUNTIME_REPORT = /\bREPORT RequestId: (\S+)/;
+const RUNTIME_LINE = /^\S+\t([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\t/i;
+
+/**
+ * Pick the lines that belong to one invocation out of the dev session output
+ * captured while it ran. The block starts at the first line mentioning the
+ * request ID, else at the Invoke event for one of `names`, and ends at the
+ * matching Done/Error event or runtime REPORT line.
+ */
+export function correlateInvocationLogs(output: string, requestId: string | null, names: string[]): InvocationLogs {
+  const lines = stripAnsi(output).split('\n').map(line => line.replace(/\r$/, ''));
+  const wanted = names.map(name => name.toLowerCase()).filter(Boolean);
+
+  let start = requestId ? lines.findIndex(line => line.includes(requestId)) : -1;
+  let matchedBy: InvocationLogs['matchedBy'] = start >= 0 ? 'request-id' : null;
+
+  if (start < 0) {
+    const invokes = lines
+      .map((line, idx) => ({ idx, target: line.match(INVOKE_EVENT)?.[1].toLowerCase() }))
+      .filter(entry => entry.target !== undefined);
+    const named = invokes.find(entry => wanted.some(name => entry.target!.includes(name) || name.includes(entry.target!)));
+    if (named) {
+      start = named.idx;
+      matchedBy = 'function';
+    } else if (invokes.length === 1) {
+      start = invokes[0].idx;
+      matchedBy = 'window';
+    }
+  }
+
+  if (start < 0) {
+    return { matchedBy: null, complete: false, lines: [] };
+  }
+
+  // sst dev prints the Invoke event before anything that carries the request ID
+  if (matchedBy === 'request-id') {
+    for (let idx = start - 1; idx >= 0; idx--) {
+      if (INVOKE_EVENT.test(lines[idx])) {
+        start = idx;
+        break;
+      }
+    }
+  }
+
+  const block: string[] = [];
+  let complete = false;
+  for (let idx = start; idx < lines.length; idx++) {
+    const line = lines[idx];
+    // A second Invoke means another call started before this one reported back
+    if (idx > start && matchedBy !== 'request-id' && INVOKE_EVENT.test(line)) break;
+
+    // Skip runtime lines that carry another request's ID
+    const owner = line.match(RUNTIME_LINE)?.[1] ?? line.match(RUNTIME_MARKER)?.[1];
+    if (owner && requestId && owner !== requestId) continue;
+
+    if (line.trim()) block.push(line);
+    if (END_EVENT.test(line) || (requestId && line.match(RUNTIME_REPORT)?.[1] === requestId)) {
+      complete = true;
+      break;
+    }
+  }
+
+  return { matchedBy, complete, lines: block };
+}
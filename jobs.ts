@@ -0,0 +1,131 @@
+import { randomUUID } from 'crypto';
+
+export type JobStatus = 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface JobResult {
+  content: Array<{ type: string; text: string }>;
+}
+
+/**
+ * A long-running tool call executed in the background
+ */
+export interface Job {
+  id: string;
+  tool: string;
+  workspaceRoot: string;
+  args: Record<string, unknown>;
+  status: JobStatus;
+  startedAt: Date;
+  endedAt: Date | null;
+  /** Most recent output lines, capped at JobTable.MAX_OUTPUT_LINES */
+  output: string[];
+  result: JobResult | null;
+  error: string | null;
+  cancelRequested: boolean;
+  /** Aborted by cancel-sst-job; passed to every spawn site the job runs */
+  controller: AbortController;
+  /** Resolves when the job has finished, whatever the outcome */
+  done: Promise<void>;
+}
+
+export class JobTable {
+  static readonly MAX_OUTPUT_LINES = 1000;
+  static readonly MAX_FINISHED_JOBS = 50;
+
+  private jobs = new Map<string, Job>();
+
+  /**
+   * Register a job and start running it
+   */
+  start(
+    tool: string,
+    workspaceRoot: string,
+    args: Record<string, unknown>,
+    run: (job: Job) => Promise<JobResult>
+  ): Job {
+    this.prune();
+
+    const job: Job = {
+      id: `job-${randomUUID().slice(0, 8)}`,
+      tool,
+      workspaceRoot,
+      args,
+      status: 'running',
+      startedAt: new Date(),
+      endedAt: null,
+      output: [],
+      result: null,
+      error: null,
+      cancelRequested: false,
+      controller: new AbortController(),
+      done: Promise.resolve(),
+    };
+
+    job.done = run(job).then(
+      (result) => {
+        job.result = result;
+        job.status = job.cancelRequested ? 'cancelled' : 'succeeded';
+      },
+      (error) => {
+        job.error = error instanceof Error ? error.message : String(error);
+        job.status = job.cancelRequested ? 'cancelled' : 'failed';
+      }
+    ).finally(() => {
+      job.endedAt = new Date();
+    });
+
+    this.jobs.set(job.id, job);
+    return job;
+  }
+
+  get(id: string): Job | undefined {
+    return this.jobs.get(id);
+  }
+
+  running(): Job[] {
+    return Array.from(this.jobs.values()).filter(job => job.status === 'running');
+  }
+
+  appendOutput(job: Job, line: string): void {
+    job.output.push(line);
+    if (job.output.length > JobTable.MAX_OUTPUT_LINES) {
+      job.output.splice(0, job.output.length - JobTable.MAX_OUTPUT_LINES);
+    }
+  }
+
+  /**
+   * Ask the job to stop. Returns false if it has already finished.
+   */
+  cancel(job: Job): boolean {
+    if (job.status !== 'running') return false;
+    job.cancelRequested = true;
+    job.controller.abort();
+    return true;
+  }
+
+  describe(job: Job, lines: number) {
+    const end = job.endedAt ?? new Date();
+    return {
+      id: job.id,
+      tool: job.tool,
+      workspaceRoot: job.workspaceRoot,
+      args: job.args,
+      status: job.status,
+      startedAt: job.startedAt.toISOString(),
+      endedAt: job.endedAt?.toISOString() ?? null,
+      durationMs: end.getTime() - job.startedAt.getTime(),
+      cancelRequested: job.cancelRequested,
+      output: job.output.slice(-lines),
+      result: job.result ? job.result.content.map(item => item.text).join('\n\n') : null,
+      error: job.error,
+    };
+  }
+
+  // Drop the oldest finished jobs so the table does not grow without bound
+  private prune(): void {
+    const finished = Array.from(this.jobs.values()).filter(job => job.status !== 'running');
+    for (const job of finished.slice(0, Math.max(0, finished.length - JobTable.MAX_FINISHED_JOBS))) {
+      this.jobs.delete(job.id);
+    }
+  }
+}
@@ -0,0 +1,173 @@
+import { InvokeCommand, LambdaClient } from '@aws-sdk/client-lambda';
+import { flattenOutputs } from './outputs.js';
+
+export type InvocationType = 'RequestResponse' | 'Event' | 'DryRun';
+
+export const INVOCATION_TYPES: InvocationType[] = ['RequestResponse', 'Event', 'DryRun'];
+
+export interface InvokeRequest {
+  functionName: string;
+  payload: string;
+  invocationType: InvocationType;
+  qualifier?: string;
+}
+
+export interface InvokeOptions {
+  region?: string;
+  profile?: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * The fields of a Lambda Invoke response the workbench uses, still encoded
+ */
+export interface RawInvokeResponse {
+  statusCode?: number;
+  functionError?: string;
+  /** Base64 tail of the execution log (RequestResponse only) */
+  logResult?: string;
+  payload?: Uint8Array;
+  executedVersion?: string;
+  /** Lambda request ID, also seen by the handler as context.awsRequestId */
+  requestId?: string;
+}
+
+/**
+ * Calls Lambda. The server uses SdkFunctionInvoker; tests can pass a stub.
+ */
+export interface FunctionInvoker {
+  invoke(request: InvokeRequest, options: InvokeOptions): Promise<RawInvokeResponse>;
+}
+
+export interface ResolvedFunction {
+  /** Physical function name or ARN passed to Lambda */
+  name: string;
+  resolvedFrom: 'arn' | 'output' | 'as-is';
+  /** Output key the name came from, if any */
+  outputKey: string | null;
+  /** Region taken from the ARN, if any */
+  region: string | null;
+}
+
+export interface InvocationResult {
+  functionName: string;
+  resolvedFrom: ResolvedFunction['resolvedFrom'];
+  outputKey: string | null;
+  invocationType: InvocationType;
+  statusCode: number | null;
+  /** "Unhandled" or "Handled" when the function threw */
+  functionError: string | null;
+  executedVersion: string | null;
+  requestId: string | null;
+  /** Parsed JSON response, or the raw text if it is not JSON */
+  payload: unknown;
+  /** Decoded log tail (last 4 KB), RequestResponse only */
+  logs: string[] | null;
+}
+
+const LAMBDA_ARN = /^arn:aws[\w-]*:lambda:([\w-]+):\d+:function:([\w-]+)(?::[\w$-]+)?$/;
+const FUNCTION_NAME = /^[\w-]{1,64}$/;
+
+/**
+ * Uses the AWS SDK; one client per region/profile pair
+ */
+export class SdkFunctionInvoker implements FunctionInvoker {
+  private clients = new Map<string, LambdaClient>();
+
+  async invoke(request: InvokeRequest, options: InvokeOptions): Promise<RawInvokeResponse> {
+    const key = `${options.region ?? ''}|${options.profile ?? ''}`;
+    let client = this.clients.get(key);
+    if (!client) {
+      client = new LambdaClient({ region: options.region, profile: options.profile });
+      this.clients.set(key, client);
+    }
+
+    const response = await client.send(new InvokeCommand({
+      FunctionName: request.functionName,
+      InvocationType: request.invocationType,
+      // Lambda only returns logs for synchronous calls
+      LogType: request.invocationType === 'RequestResponse' ? 'Tail' : 'None',
+      Payload: new TextEncoder().encode(request.payload),
+      Qualifier: request.qualifier,
+    }), { abortSignal: options.signal });
+
+    return {
+      statusCode: response.StatusCode,
+      functionError: response.FunctionError,
+      logResult: response.LogResult,
+      payload: response.Payload,
+      executedVersion: response.ExecutedVersion,
+      requestId: response.$metadata.requestId,
+    };
+  }
+}
+
+/**
+ * Map an SST logical name (e.g. "MyFunction") to the physical function using the
+ * stage outputs: an output named after the function, or a Lambda ARN containing the name.
+ * Anything that cannot be resolved is passed through unchanged.
+ */
+export function resolveFunctionName(name: string, outputs: Record<string, unknown> | null): ResolvedFunction {
+  const arn = name.match(LAMBDA_ARN);
+  if (arn) {
+    return { name, resolvedFrom: 'arn', outputKey: null, region: arn[1] };
+  }
+
+  const entries = outputs ? flattenOutputs(outputs).filter(([, value]) => typeof value === 'string') as Array<[string, string]> : [];
+  const lower = name.toLowerCase();
+  const invocable = (value: string) => LAMBDA_ARN.test(value) || FUNCTION_NAME.test(value);
+  const resolved = (outputKey: string, value: string): ResolvedFunction => ({
+    name: value,
+    resolvedFrom: 'output',
+    outputKey,
+    region: value.match(LAMBDA_ARN)?.[1] ?? null,
+  });
+
+  // "MyFunction", "myFunction.name", "MyFunction.arn"...
+  const byKey = entries.find(([key, value]) => {
+    const parts = key.toLowerCase().split('.');
+    const matches = parts[0] === lower && (parts.length === 1 || ['name', 'arn', 'functionname', 'functionarn'].includes(parts[1]));
+    return matches && invocable(value);
+  });
+  if (byKey) return resolved(byKey[0], byKey[1]);
+
+  const byArn = entries.filter(([, value]) => value.match(LAMBDA_ARN)?.[2].toLowerCase().includes(lower));
+  if (byArn.length === 1) return resolved(byArn[0][0], byArn[0][1]);
+  if (byArn.length > 1) {
+    throw new Error(`"${name}" matches several functions in the outputs: ${byArn.map(([key]) => key).join(', ')}. Use the output key or physical name.`);
+  }
+
+  return { name, resolvedFrom: 'as-is', outputKey: null, region: null };
+}
+
+/**
+ * Split an Invoke response into status, error flag, decoded logs and payload
+ */
+export function parseInvokeResponse(raw: RawInvokeResponse, resolved: ResolvedFunction, invocationType: InvocationType): InvocationResult {
+  const text = raw.payload && raw.payload.length > 0 ? new TextDecoder().decode(raw.payload) : '';
+  let payload: unknown = null;
+  if (text) {
+    try {
+      payload = JSON.parse(text);
+    } catch {
+      payload = text;
+    }
+  }
+
+  const logs = raw.logResult
+    ? Buffer.from(raw.logResult, 'base64').toString('utf8').replace(/\n$/, '').split('\n')
+    : null;
+
+  return {
+    functionName: resolved.name,
+    resolvedFrom: resolved.resolvedFrom,
+    outputKey: resolved.outputKey,
+    invocationType,
+    statusCode: raw.statusCode ?? null,
+    functionError: raw.functionError ?? null,
+    executedVersion: raw.executedVersion ?? null,
+    requestId: raw.requestId ?? null,
+    payload,
+    logs,
+  };
+}
@@ -0,0 +1,165 @@
+import { createHash } from 'crypto';
+import { LogLine } from './log-query.js';
+
+export type ErrorCategory =
+  | 'typescript-build'
+  | 'esbuild-bundle'
+  | 'lambda-runtime'
+  | 'pulumi-infra'
+  | 'aws-permission'
+  | 'other';
+
+export const ERROR_CATEGORIES: ErrorCategory[] = [
+  'typescript-build',
+  'esbuild-bundle',
+  'lambda-runtime',
+  'pulumi-infra',
+  'aws-permission',
+  'other',
+];
+
+export interface LogPosition {
+  line: number;
+  timestamp: string | null;
+  session: number;
+}
+
+export interface ErrorCluster {
+  fingerprint: string;
+  category: ErrorCategory;
+  message: string;
+  /** file:line:col of the first source location in the error, if any */
+  location: string | null;
+  count: number;
+  firstSeen: LogPosition;
+  lastSeen: LogPosition;
+  /** Stack frames and continuation lines of the most recent occurrence */
+  stack: string[];
+  /** Lines just before the most recent occurrence */
+  context: string[];
+}
+
+const MAX_BLOCK_LINES = 50;
+const CONTEXT_LINES = 3;
+
+// Checked in order; the first category whose pattern matches the whole block wins
+const CATEGORY_PATTERNS: Array<[ErrorCategory, RegExp]> = [
+  ['aws-permission', /AccessDenied|not authorized to perform|UnauthorizedOperation|ExpiredToken|InvalidClientTokenId|security token included in the request is invalid|Could not load credentials|credentials? (?:have|has) expired/i],
+  ['typescript-build', /\berror TS\d+\b|\.[cm]?tsx?\(\d+,\d+\): error/],
+  ['esbuild-bundle', /✘ \[ERROR\]|\besbuild\b|Could not resolve "|Build failed with \d+ error/],
+  ['pulumi-infra', /urn:pulumi|\bpulumi\b|Diagnostics:|sst\.config\.ts|\binfra\//i],
+  ['lambda-runtime', /"errorType"|\bRuntime\.\w+|Task timed out|Unhandled(?:Promise)?Rejection|\b(?:Type|Reference|Syntax|Range)Error\b|Cannot find module|Cannot read propert/],
+];
+
+// A line that starts a new error block. Deliberately stricter than a bare
+// "failed" or "cannot" match, which flags harmless lines such as "0 failed".
+const ERROR_START = new RegExp([
+  /\berror TS\d+\b/.source,
+  /✘ \[ERROR\]/.source,
+  /\[ERROR\]/.source,
+  /^\W*\w*(?:Error|Exception):/.source,
+  /^\s*\|?\s*Error\s{2,}\S/.source,
+  /\berror:/.source,
+  /"errorType"/.source,
+  /Task timed out/.source,
+  /Unhandled(?:Promise)?Rejection/.source,
+  /AccessDenied/.source,
+  /not authorized to perform/.source,
+  /^\W*[✕✗×❌]\s/.source,
+  /\bBuild failed\b/.source,
+  /\bfailed with (?:exit )?code [1-9]/.source,
+].join('|'), 'i');
+
+const STACK_FRAME = /^\s*(?:\|\s*)?at\s+\S/;
+const CODE_FRAME = /^\s*(?:\|\s*)?(?:\d+\s*\||\^+\s*$|~+\s*$)/;
+const INDENTED = /^(?:\s{2,}|\t)\S/;
+const SOURCE_LOCATION = /((?:\/|\.\/|\w:\\)?[\w./\\-]+\.[cm]?[jt]sx?)[:(](\d+)[:,](\d+)/;
+
+function isContinuation(text: string): boolean {
+  return STACK_FRAME.test(text) || CODE_FRAME.test(text) || INDENTED.test(text);
+}
+
+export function classifyError(block: string): ErrorCategory {
+  for (const [category, pattern] of CATEGORY_PATTERNS) {
+    if (pattern.test(block)) return category;
+  }
+  return 'other';
+}
+
+/**
+ * Reduce a message to the parts that stay the same across repeats:
+ * drops timestamps, ids, numbers and source positions
+ */
+export function fingerprintError(category: ErrorCategory, message: string): string {
+  const normalized = message
+    .replace(/\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:?\d{2})?/g, '<time>')
+    .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, '<id>')
+    .replace(/\b[0-9a-f]{12,}\b/gi, '<hex>')
+    .replace(/\d+/g, '#')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return createHash('sha1').update(`${category}:${normalized}`).digest('hex').slice(0, 12);
+}
+
+/**
+ * Group error lines with their stack frames and collapse repeats into clusters
+ */
+export function clusterErrors(lines: LogLine[]): ErrorCluster[] {
+  const clusters = new Map<string, ErrorCluster>();
+
+  for (let idx = 0; idx < lines.length; idx++) {
+    const start = lines[idx];
+    if (!ERROR_START.test(start.text)) continue;
+
+    const stack: string[] = [];
+    let next = idx + 1;
+    while (next < lines.length && stack.length < MAX_BLOCK_LINES) {
+      const text = lines[next].text;
+      // esbuild puts a blank line between the error and its source location
+      if (!text.trim() && next + 1 < lines.length && isContinuation(lines[next + 1].text)) {
+        next++;
+        continue;
+      }
+      if (!isContinuation(text)) break;
+      stack.push(text.trimEnd());
+      next++;
+    }
+
+    const message = start.text.trim();
+    const block = [message, ...stack].join('\n');
+    const category = classifyError(block);
+    const fingerprint = fingerprintError(category, message);
+    const location = block.match(SOURCE_LOCATION);
+    const position: LogPosition = { line: start.line, timestamp: start.timestamp, session: start.session };
+    const context = lines
+      .slice(Math.max(0, idx - CONTEXT_LINES), idx)
+      .map(l => l.text.trimEnd())
+      .filter(text => text.trim());
+
+    const existing = clusters.get(fingerprint);
+    if (existing) {
+      existing.count++;
+      existing.lastSeen = position;
+      existing.stack = stack;
+      existing.context = context;
+    } else {
+      clusters.set(fingerprint, {
+        fingerprint,
+        category,
+        message,
+        location: location ? `${location[1]}:${location[2]}:${location[3]}` : null,
+        count: 1,
+        firstSeen: position,
+        lastSeen: position,
+        stack,
+        context,
+      });
+    }
+
+    // Continuation lines belong to this error, not to a new one
+    idx = next - 1;
+  }
+
+  return Array.from(clusters.values()).sort((a, b) => b.lastSeen.line - a.lastSeen.line);
+}
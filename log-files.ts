@@ -0,0 +1,219 @@
+import {
+  closeSync,
+  createWriteStream,
+  existsSync,
+  mkdirSync,
+  openSync,
+  readSync,
+  readdirSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+  WriteStream,
+} from 'fs';
+import { join } from 'path';
+import { SSTConfig } from './config.js';
+import { readDeploymentRecords } from './deployments.js';
+
+export type LogFileKind = 'current' | 'archive' | 'deploy';
+
+/**
+ * One log file an agent can read with get-sst-logs and `logId`
+ */
+export interface LogFileInfo {
+  id: string;
+  kind: LogFileKind;
+  path: string;
+  sizeBytes: number;
+  /** From the first start marker, or the deployment record */
+  startedAt: string | null;
+  /** Last write */
+  updatedAt: string;
+  /** Deploy runs only */
+  tool?: string;
+  stage?: string;
+  status?: string;
+}
+
+export const CURRENT_LOG_ID = 'current';
+
+const ARCHIVE_ID = /^sst-mcp-\d{8}T\d{6}Z(?:-\d+)?$/;
+const FIRST_MARKER = /^=== SST .+? Started at (\S+)/m;
+// Enough to find the first marker; it is written before any output
+const HEAD_BYTES = 4096;
+
+function compactTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d+/, '');
+}
+
+function readStartedAt(filePath: string): string | null {
+  const buffer = Buffer.alloc(HEAD_BYTES);
+  const fd = openSync(filePath, 'r');
+  try {
+    const read = readSync(fd, buffer, 0, HEAD_BYTES, 0);
+    return buffer.toString('utf8', 0, read).match(FIRST_MARKER)?.[1] ?? null;
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/**
+ * Delete the oldest matching files in `dir` so at most `keep` remain.
+ * Names must sort by age, which timestamp-prefixed names do.
+ */
+function pruneFiles(dir: string, matches: (name: string) => boolean, keep: number): string[] {
+  if (!existsSync(dir)) return [];
+  const names = readdirSync(dir).filter(matches).sort();
+  const removed = names.slice(0, Math.max(0, names.length - keep));
+  for (const name of removed) {
+    try {
+      unlinkSync(join(dir, name));
+    } catch {
+      // Already gone
+    }
+  }
+  return removed;
+}
+
+/**
+ * Move sst-mcp.log to .sst/logs/ and drop the oldest archives over the limit.
+ * Returns the archive path, or null if there was nothing to keep.
+ */
+export function archiveLog(workspaceRoot: string): string | null {
+  const logPath = SSTConfig.getLogPath(workspaceRoot);
+  if (!existsSync(logPath)) return null;
+  if (statSync(logPath).size === 0) {
+    unlinkSync(logPath);
+    return null;
+  }
+
+  const archiveDir = SSTConfig.getLogArchiveDir(workspaceRoot);
+  mkdirSync(archiveDir, { recursive: true });
+
+  const base = `sst-mcp-${compactTimestamp(new Date())}`;
+  let archivePath = join(archiveDir, `${base}.log`);
+  for (let suffix = 1; existsSync(archivePath); suffix++) {
+    archivePath = join(archiveDir, `${base}-${suffix}.log`);
+  }
+
+  renameSync(logPath, archivePath);
+  pruneFiles(archiveDir, name => ARCHIVE_ID.test(name.replace(/\.log$/, '')), SSTConfig.LOG_MAX_FILES);
+  return archivePath;
+}
+
+/**
+ * Keep only the newest LOG_MAX_FILES deployment run logs. Their ledger entries stay.
+ */
+export function pruneDeploymentLogs(workspaceRoot: string): string[] {
+  return pruneFiles(SSTConfig.getDeploymentOutputDir(workspaceRoot), name => name.endsWith('.log'), SSTConfig.LOG_MAX_FILES);
+}
+
+/**
+ * Appends one sst dev session's output to sst-mcp.log. When the file reaches
+ * the size or age limit it is archived and a new one is started, so a long
+ * session does not grow it without bound.
+ */
+export class RotatingLogWriter {
+  private stream: WriteStream;
+  private bytes: number;
+  private openedAt = Date.now();
+
+  constructor(private workspaceRoot: string, private kind: string) {
+    const logPath = SSTConfig.getLogPath(workspaceRoot);
+    this.bytes = existsSync(logPath) ? statSync(logPath).size : 0;
+    this.stream = createWriteStream(logPath, { flags: 'a' });
+  }
+
+  write(text: string): void {
+    this.stream.write(text);
+    this.bytes += Buffer.byteLength(text);
+    if (this.bytes >= SSTConfig.LOG_MAX_BYTES || Date.now() - this.openedAt >= SSTConfig.LOG_MAX_AGE_MS) {
+      this.rotate();
+    }
+  }
+
+  /**
+   * Close the file; resolves once everything written so far is flushed
+   */
+  end(text?: string): Promise<void> {
+    if (text) this.stream.write(text);
+    return new Promise(resolve => this.stream.end(resolve));
+  }
+
+  private rotate(): void {
+    // Buffered writes still land in the archived file: the descriptor follows the rename
+    this.stream.end();
+    try {
+      archiveLog(this.workspaceRoot);
+    } catch {
+      // Keep appending to the same file rather than losing output
+    }
+    this.stream = createWriteStream(SSTConfig.getLogPath(this.workspaceRoot), { flags: 'a' });
+    this.bytes = 0;
+    this.openedAt = Date.now();
+    this.write(`=== SST ${this.kind} (continued) Started at ${new Date().toISOString()} ===\n`);
+  }
+}
+
+function describeFile(id: string, kind: LogFileKind, filePath: string): LogFileInfo {
+  const stats = statSync(filePath);
+  return {
+    id,
+    kind,
+    path: filePath,
+    sizeBytes: stats.size,
+    startedAt: readStartedAt(filePath),
+    updatedAt: stats.mtime.toISOString(),
+  };
+}
+
+/**
+ * The current log, rotated logs and deployment run logs, newest first
+ */
+export function listLogFiles(workspaceRoot: string): LogFileInfo[] {
+  const files: LogFileInfo[] = [];
+
+  const logPath = SSTConfig.getLogPath(workspaceRoot);
+  if (existsSync(logPath)) {
+    files.push(describeFile(CURRENT_LOG_ID, 'current', logPath));
+  }
+
+  const archiveDir = SSTConfig.getLogArchiveDir(workspaceRoot);
+  if (existsSync(archiveDir)) {
+    for (const name of readdirSync(archiveDir)) {
+      const id = name.replace(/\.log$/, '');
+      if (ARCHIVE_ID.test(id)) files.push(describeFile(id, 'archive', join(archiveDir, name)));
+    }
+  }
+
+  for (const record of readDeploymentRecords(workspaceRoot)) {
+    if (!existsSync(record.outputPath)) continue;
+    files.push({
+      ...describeFile(record.id, 'deploy', record.outputPath),
+      startedAt: record.startedAt,
+      tool: record.tool,
+      stage: record.stage,
+      status: record.status,
+    });
+  }
+
+  const sortKey = (file: LogFileInfo) => file.startedAt ?? file.updatedAt;
+  return files.sort((a, b) => sortKey(b).localeCompare(sortKey(a)));
+}
+
+/**
+ * Path of the log with this id. Throws if there is no such log.
+ */
+export function resolveLogFile(workspaceRoot: string, logId: string = CURRENT_LOG_ID): string {
+  if (logId === CURRENT_LOG_ID) return SSTConfig.getLogPath(workspaceRoot);
+
+  if (ARCHIVE_ID.test(logId)) {
+    const archivePath = join(SSTConfig.getLogArchiveDir(workspaceRoot), `${logId}.log`);
+    if (existsSync(archivePath)) return archivePath;
+  } else {
+    const record = readDeploymentRecords(workspaceRoot).find(entry => entry.id === logId);
+    if (record && existsSync(record.outputPath)) return record.outputPath;
+  }
+
+  throw new Error(`Log not found: ${logId}. Use list-sst-log-sessions to see the available logs.`);
+}
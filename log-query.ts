@@ -0,0 +1,221 @@
+export type LogSeverity = 'debug' | 'info' | 'warn' | 'error';
+
+const SEVERITY_ORDER: Record<LogSeverity, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+export const LOG_SEVERITIES = Object.keys(SEVERITY_ORDER) as LogSeverity[];
+
+export interface LogLine {
+  /** 1-based line number in the log file */
+  line: number;
+  text: string;
+  /** Timestamp from the line itself, or inherited from the closest marker/line above it */
+  timestamp: string | null;
+  severity: LogSeverity;
+  /** 1-based index of the start/deploy block the line belongs to, 0 before the first marker */
+  session: number;
+}
+
+export interface LogSession {
+  index: number;
+  kind: string;
+  startedAt: string;
+  endedAt: string | null;
+  exitCode: number | null;
+  startLine: number;
+  endLine: number;
+}
+
+export interface ParsedLog {
+  lines: LogLine[];
+  sessions: LogSession[];
+}
+
+export interface LogQuery {
+  since?: string;
+  until?: string;
+  include?: string;
+  exclude?: string;
+  name?: string;
+  severity?: LogSeverity;
+  session?: number;
+  cursor?: string;
+  limit: number;
+}
+
+export interface LogQueryResult {
+  lines: LogLine[];
+  session: LogSession | null;
+  sessionCount: number;
+  totalLines: number;
+  nextCursor: string | null;
+}
+
+// Markers written by mcp-server.ts and deploy.ts, e.g.
+//   === SST Dev Started at 2025-01-01T00:00:00.000Z ===
+//   === SST Deploy (--stage dev) Started at 2025-01-01T00:00:00.000Z ===
+//   === SST Deploy Started at 2025-01-01T00:00:00.000Z (stage: dev) ===
+const START_MARKER = /^=== SST (.+?) Started at (\S+)(?: \(.*\))? ===$/;
+const END_MARKER = /^=== SST (.+?) Ended at (\S+) with code (\S+) ===$/;
+const LINE_TIMESTAMP = /\b(\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:?\d{2})?)/;
+
+export function detectSeverity(text: string): LogSeverity {
+  if (/\b(error|fatal|exception)\b|\[ERROR\]|✗|❌/i.test(text)) return 'error';
+  if (/\b(warn|warning)\b|⚠/i.test(text)) return 'warn';
+  if (/\bdebug\b/i.test(text)) return 'debug';
+  return 'info';
+}
+
+/**
+ * Split a log file into lines annotated with timestamp, severity and session
+ */
+export function parseLog(content: string): ParsedLog {
+  const lines: LogLine[] = [];
+  const sessions: LogSession[] = [];
+  let current: LogSession | null = null;
+  let lastTimestamp: string | null = null;
+
+  content.split('\n').forEach((text, idx) => {
+    const lineNumber = idx + 1;
+    const trimmed = text.trim();
+
+    const start = trimmed.match(START_MARKER);
+    if (start) {
+      if (current) current.endLine = lineNumber - 1;
+      current = {
+        index: sessions.length + 1,
+        kind: start[1],
+        startedAt: start[2],
+        endedAt: null,
+        exitCode: null,
+        startLine: lineNumber,
+        endLine: lineNumber,
+      };
+      sessions.push(current);
+      lastTimestamp = start[2];
+    }
+
+    const end = trimmed.match(END_MARKER);
+    if (end) {
+      lastTimestamp = end[2];
+      if (current) {
+        current.endedAt = end[2];
+        const code = parseInt(end[3], 10);
+        current.exitCode = isNaN(code) ? null : code;
+      }
+    } else if (!start) {
+      const stamp = trimmed.match(LINE_TIMESTAMP);
+      if (stamp) lastTimestamp = stamp[1];
+    }
+
+    if (current) current.endLine = lineNumber;
+
+    lines.push({
+      line: lineNumber,
+      text,
+      timestamp: lastTimestamp,
+      severity: detectSeverity(text),
+      session: current ? current.index : 0,
+    });
+  });
+
+  return { lines, sessions };
+}
+
+function compilePattern(pattern: string | undefined, label: string): RegExp | null {
+  if (!pattern) return null;
+  try {
+    return new RegExp(pattern, 'i');
+  } catch (error) {
+    throw new Error(`Invalid ${label} pattern: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function parseTime(value: string | undefined, label: string): number | null {
+  if (!value) return null;
+  const time = Date.parse(value);
+  if (isNaN(time)) {
+    throw new Error(`Invalid ${label} time: ${value}`);
+  }
+  return time;
+}
+
+export function encodeCursor(before: number): string {
+  return Buffer.from(JSON.stringify({ before })).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): number {
+  try {
+    const { before } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof before === 'number' && Number.isInteger(before) && before >= 0) {
+      return before;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error('Invalid cursor');
+}
+
+/**
+ * Run a filtered query over a parsed log. Results are paged from the end of
+ * the file backwards: each page holds the `limit` most recent matches before
+ * the cursor, in file order, and `nextCursor` points further back.
+ */
+export function queryLog(parsed: ParsedLog, query: LogQuery): LogQueryResult {
+  const include = compilePattern(query.include, 'include');
+  const exclude = compilePattern(query.exclude, 'exclude');
+  const since = parseTime(query.since, 'since');
+  const until = parseTime(query.until, 'until');
+  const minSeverity = query.severity ? SEVERITY_ORDER[query.severity] : null;
+
+  let session: LogSession | null = null;
+  if (query.session !== undefined && query.session !== 0) {
+    const idx = query.session > 0 ? query.session - 1 : parsed.sessions.length + query.session;
+    session = parsed.sessions[idx] ?? null;
+    if (!session) {
+      throw new Error(`Session ${query.session} not found (log has ${parsed.sessions.length} session(s))`);
+    }
+  }
+
+  const matches = (entry: LogLine): boolean => {
+    if (!entry.text.trim()) return false;
+    if (session && entry.session !== session.index) return false;
+    if (minSeverity !== null && SEVERITY_ORDER[entry.severity] < minSeverity) return false;
+    if (query.name && !entry.text.includes(query.name)) return false;
+    if (include && !include.test(entry.text)) return false;
+    if (exclude && exclude.test(entry.text)) return false;
+    if (since !== null || until !== null) {
+      const time = entry.timestamp ? Date.parse(entry.timestamp) : NaN;
+      if (isNaN(time)) return false;
+      if (since !== null && time < since) return false;
+      if (until !== null && time > until) return false;
+    }
+    return true;
+  };
+
+  const before = query.cursor ? Math.min(decodeCursor(query.cursor), parsed.lines.length) : parsed.lines.length;
+  const page: LogLine[] = [];
+  let idx = before - 1;
+
+  for (; idx >= 0 && page.length < query.limit; idx--) {
+    if (matches(parsed.lines[idx])) page.push(parsed.lines[idx]);
+  }
+
+  // Only hand out a cursor if there is at least one more match further back
+  let nextCursor: string | null = null;
+  if (page.length === query.limit) {
+    for (let rest = idx; rest >= 0; rest--) {
+      if (matches(parsed.lines[rest])) {
+        nextCursor = encodeCursor(idx + 1);
+        break;
+      }
+    }
+  }
+
+  return {
+    lines: page.reverse(),
+    session,
+    sessionCount: parsed.sessions.length,
+    totalLines: parsed.lines.length,
+    nextCursor,
+  };
+}
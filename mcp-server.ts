@@ -2,43 +2,211 @@
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
 import {
+  CallToolRequest,
   CallToolRequestSchema,
+  ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  McpError,
+  ProgressToken,
+  ReadResourceRequestSchema,
+  ServerNotification,
+  ServerRequest,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
-import { spawn, ChildProcess, execSync } from 'child_process';
-import { createWriteStream, existsSync, mkdirSync, readFileSync, unlinkSync, WriteStream } from 'fs';
-import { dirname, join } from 'path';
+import { spawn, ChildProcess } from 'child_process';
+import { chmodSync, createWriteStream, existsSync, mkdirSync, readFileSync, statSync, unlinkSync, writeFileSync } from 'fs';
+import { basename, dirname, join, relative } from 'path';
 import { fileURLToPath } from 'url';
 import { SSTConfig } from './config.js';
+import { SST_RESOURCES, buildResourceUri, parseResourceUri } from './resources.js';
+import { LOG_SEVERITIES, LogQuery, parseLog, queryLog } from './log-query.js';
+import { ERROR_CATEGORIES, ErrorCategory, clusterErrors } from './log-errors.js';
+import {
+  DeploymentRecord,
+  DeploymentStatus,
+  DeploymentTool,
+  finishDeploymentRecord,
+  readDeploymentRecords,
+  startDeploymentRecord,
+} from './deployments.js';
+import { Job, JobTable } from './jobs.js';
+import { parseDiff } from './diff-plan.js';
+import { ConfirmationStore, POLICY_TOOLS, checkPolicy, loadPolicy } from './policy.js';
+import { ParameterSource, SsmParameterSource, StageDiscoveryError, discoverStages, readAppName } from './stages.js';
+import { buildInventory, diffInventories, listOutputStages, readStageOutputs, saveStageOutputs } from './outputs.js';
+import { InvocationLogs, correlateInvocationLogs } from './invocation-logs.js';
+import { isSecretEnv, maskEnvValue, parseEnv, updateEnv } from './env-file.js';
+import { readDevState } from './dev-supervisor.js';
+import { DevPhase, DevPhaseTracker } from './dev-phase.js';
+import { Redactor } from './redact.js';
+import { SSTCommand, detectSSTCommand, formatSSTCommand, globalSSTCommand, resolveSSTCommand } from './sst-command.js';
+import { CONFIG_SCHEMA, ConfigKey, getServerConfig, loadServerConfig } from './server-config.js';
+import { checkSecretsTarget, diffSecrets, formatSecretsDotenv, parseSecretList, resolveSecretsFile } from './secrets.js';
+import { checkExecutable, loadShellPolicy, resolveShellCwd, tokenizeCommand, validateShellEnv } from './shell-exec.js';
+import { LogFileKind, RotatingLogWriter, archiveLog, listLogFiles, pruneDeploymentLogs, resolveLogFile } from './log-files.js';
+import {
+  DEFAULT_INFRA_WATCH,
+  InfraWatchSettings,
+  clearPendingInfraChange,
+  loadInfraWatchSettings,
+  parseInfraChangeLine,
+  readPendingInfraChange,
+} from './infra-watch.js';
+import { createEnvProfile, getActiveEnvProfile, listEnvProfiles, setActiveEnvProfile, validateProfileName } from './env-profiles.js';
+import { PAYLOAD_TEMPLATES, listPayloads, loadPayload, savePayload } from './payloads.js';
+import {
+  FunctionInvoker,
+  INVOCATION_TYPES,
+  InvocationType,
+  RawInvokeResponse,
+  SdkFunctionInvoker,
+  parseInvokeResponse,
+  resolveFunctionName,
+} from './lambda.js';
+import { killProcessAndChildren } from './process-tree.js';
+import { watch, FSWatcher } from 'chokidar';
 import { RateLimiter } from 'limiter';
 import winston from 'winston';
+import stripAnsi from 'strip-ansi';
 import path from 'path';
 
+type DevSessionState = 'starting' | 'running' | 'stopping' | 'exited' | 'error';
+
+/**
+ * A `sst dev` session started by this server for one workspace
+ */
+interface DevSession {
+  workspaceRoot: string;
+  process: ChildProcess;
+  logStream: RotatingLogWriter | null;
+  logPath: string;
+  startedAt: Date;
+  state: DevSessionState;
+  exitCode: number | null;
+  /** What sst dev is doing, from its output */
+  phase: DevPhaseTracker;
+}
+
+type OutputStream = 'stdout' | 'stderr';
+
+/**
+ * Streams child process output to the MCP client line by line while it runs
+ */
+interface OutputReporter {
+  write(chunk: string, stream: OutputStream): void;
+  flush(): void;
+}
+
+/**
+ * Per-call state threaded through long-running operations
+ */
+interface OperationContext {
+  reporter?: OutputReporter;
+  /** Set when the operation runs as a background job */
+  job?: Job;
+  /** Aborted by notifications/cancelled or cancel-sst-job */
+  signal?: AbortSignal;
+}
+
+/**
+ * Ties a child process to an AbortSignal; see MCPSSTServer.killOnAbort
+ */
+interface AbortBinding {
+  /** PIDs signalled because the operation was cancelled, null if it was not */
+  killedPids: number[] | null;
+  dispose(): void;
+}
+
+/**
+ * Arguments shared by the tools in POLICY_TOOLS
+ */
+type GuardedArgs = { workspaceRoot: string; stage?: string; confirmationToken?: string } & Record<string, unknown>;
+
+type StartDevArgs = {
+  workspaceRoot: string;
+  profile?: string;
+  maxRestarts?: number;
+  restartBackoffMs?: number;
+  wait?: boolean;
+  timeoutMs?: number;
+};
+
+type ShellExecArgs = {
+  workspaceRoot: string;
+  command?: string;
+  argv?: string[];
+  target?: string;
+  cwd?: string;
+  env?: Record<string, string>;
+};
+
+type InvokeArgs = {
+  workspaceRoot: string;
+  functionName: string;
+  payload?: string;
+  fixture?: string;
+  invocationType?: InvocationType;
+  qualifier?: string;
+  stage?: string;
+  region?: string;
+  profile?: string;
+};
+
+// Tools that can run as background jobs with `async: true`
+const JOB_TOOLS = ['sst-deploy', 'remove-sst-stage', 'sst-refresh', 'sst-diff', 'sst-restart-for-infra'];
+
+// Tools whose responses are not redacted
+const UNREDACTED_TOOLS = ['sst-secret-get', 'sst-secret-list', 'get-sst-env'];
+
 class MCPSSTServer {
   private server: Server;
-  private sstProcess: ChildProcess | null = null;
-  private logStream: WriteStream | null = null;
+  private devSessions = new Map<string, DevSession>();
+  private knownWorkspaces = new Set<string>();
+  private resourceWatchers = new Map<string, FSWatcher>();
   private rateLimiter: RateLimiter;
   private logger: winston.Logger;
   private operationTimeouts = new Map<string, NodeJS.Timeout>();
-  private cancelHandlers = new Map<string, () => void>();
-
-  constructor() {
-    // Rate limiter: 30 requests per minute
-    this.rateLimiter = new RateLimiter({ tokensPerInterval: 30, interval: 'minute' });
+  private operationCounter = 0;
+  private jobs = new JobTable();
+  private confirmations = new ConfirmationStore();
+  private parameterSource?: ParameterSource;
+  private functionInvoker: FunctionInvoker;
+  private redactor = new Redactor();
+
+  /**
+   * @param options.parameterSource SSM stand-in for stage discovery; defaults to the AWS SDK
+   * @param options.functionInvoker Lambda stand-in for invoke-sst-function; defaults to the AWS SDK
+   */
+  constructor(options: { parameterSource?: ParameterSource; functionInvoker?: FunctionInvoker } = {}) {
+    this.parameterSource = options.parameterSource;
+    this.functionInvoker = options.functionInvoker ?? new SdkFunctionInvoker();
+    // Server-wide settings are read once: defaults, the user config file and the environment
+    const config = getServerConfig();
+    this.rateLimiter = new RateLimiter({ tokensPerInterval: config.rateLimitPerMinute, interval: 'minute' });
     
-    // Structured logger
+    // Structured logger; every field is redacted before it reaches a transport
+    const redact = winston.format(info => {
+      for (const key of Object.keys(info)) {
+        if (key !== 'level') info[key] = this.redactor.redactDeep(info[key]);
+      }
+      return info;
+    });
     this.logger = winston.createLogger({
       level: process.env.MCP_LOG_LEVEL || 'info',
       format: winston.format.combine(
         winston.format.timestamp(),
         winston.format.errors({ stack: true }),
+        redact(),
         winston.format.json()
       ),
       transports: [
-        new winston.transports.File({ filename: 'mcp-server-error.log', level: 'error' }),
-        new winston.transports.File({ filename: 'mcp-server.log' }),
+        new winston.transports.File({ filename: config.serverErrorLogFile, level: 'error' }),
+        new winston.transports.File({ filename: config.serverLogFile }),
         new winston.transports.Console({ format: winston.format.simple(), level: 'error' })
       ]
     });
@@ -53,11 +221,17 @@ class MCPSSTServer {
           tools: {
             listChanged: false
           },
+          logging: {},
+          resources: {
+            subscribe: true,
+            listChanged: false
+          },
         },
       }
     );
 
     this.setupToolHandlers();
+    this.setupResourceHandlers();
     this.logger.info('MCP SST Server initialized');
   }
 
@@ -87,45 +261,156 @@ class MCPSSTServer {
     }
   }
 
+  // Remember a workspace a tool was called for, so its files show up in resources/list
+  // and its secrets are redacted from everything the server returns
+  private registerWorkspace(workspaceRoot: string): void {
+    this.validateWorkspaceRoot(workspaceRoot);
+    this.knownWorkspaces.add(workspaceRoot);
+    this.redactor.loadWorkspace(workspaceRoot);
+  }
+
   private async withTimeout<T>(
     promise: Promise<T>,
     timeoutMs: number,
     operation: string,
     onCancel?: () => void
   ): Promise<T> {
+    // Keyed per call so concurrent operations of the same kind keep their own timers
+    const key = `${operation}#${++this.operationCounter}`;
     const timeoutPromise = new Promise<never>((_, reject) => {
       const timeout = setTimeout(() => {
         if (onCancel) onCancel();
         reject(new Error(`${operation} timed out after ${timeoutMs}ms`));
       }, timeoutMs);
-      this.operationTimeouts.set(operation, timeout);
+      this.operationTimeouts.set(key, timeout);
     });
     
     try {
       const result = await Promise.race([promise, timeoutPromise]);
-      const timeout = this.operationTimeouts.get(operation);
+      const timeout = this.operationTimeouts.get(key);
       if (timeout) {
         clearTimeout(timeout);
-        this.operationTimeouts.delete(operation);
+        this.operationTimeouts.delete(key);
       }
       return result;
     } catch (error) {
-      const timeout = this.operationTimeouts.get(operation);
+      const timeout = this.operationTimeouts.get(key);
       if (timeout) {
         clearTimeout(timeout);
-        this.operationTimeouts.delete(operation);
+        this.operationTimeouts.delete(key);
       }
       throw error;
     }
   }
 
+  /**
+   * Create a controller that also aborts when `parent` does, so a call can
+   * add its own timeout on top of the client's cancellation signal
+   */
+  private createAbortController(parent?: AbortSignal): AbortController {
+    const controller = new AbortController();
+    if (parent?.aborted) {
+      controller.abort();
+    } else {
+      parent?.addEventListener('abort', () => controller.abort(), { once: true });
+    }
+    return controller;
+  }
+
+  /**
+   * Kill a spawned process and all of its descendants when `signal` aborts.
+   * Processes still alive after SSTConfig.KILL_GRACE_MS get SIGKILL.
+   */
+  private killOnAbort(proc: ChildProcess, signal: AbortSignal | undefined, operation: string): AbortBinding {
+    const binding: AbortBinding = { killedPids: null, dispose: () => {} };
+    if (!signal) return binding;
+
+    const onAbort = async () => {
+      if (!proc.pid || proc.exitCode !== null || proc.signalCode !== null) return;
+      binding.killedPids = [];
+      try {
+        binding.killedPids = await killProcessAndChildren(proc.pid, 'SIGTERM');
+      } catch (error) {
+        // ps failed; fall back to the direct child
+        if (proc.kill('SIGTERM')) binding.killedPids = [proc.pid];
+        this.logger.warn('Could not list child processes', { operation, error: error instanceof Error ? error.message : String(error) });
+      }
+      this.logger.info(`${operation} cancelled`, { killedPids: binding.killedPids });
+
+      const pids = binding.killedPids;
+      setTimeout(() => {
+        for (const pid of pids) {
+          try {
+            process.kill(pid, 'SIGKILL');
+          } catch {
+            // Already exited
+          }
+        }
+      }, SSTConfig.KILL_GRACE_MS).unref();
+    };
+
+    if (signal.aborted) {
+      onAbort();
+    } else {
+      signal.addEventListener('abort', onAbort, { once: true });
+    }
+    binding.dispose = () => signal.removeEventListener('abort', onAbort);
+    return binding;
+  }
+
+  /**
+   * Create a reporter that pushes each output line through the MCP logging
+   * capability and, when the client sent a progressToken, as progress notifications
+   */
+  private createOutputReporter(
+    loggerName: string,
+    progressToken?: ProgressToken,
+    sendNotification?: (notification: ServerNotification) => Promise<void>,
+    onLine?: (line: string) => void
+  ): OutputReporter {
+    const buffers: Record<OutputStream, string> = { stdout: '', stderr: '' };
+    let progress = 0;
+
+    const emit = (rawLine: string) => {
+      const line = this.redactor.redact(stripAnsi(rawLine).trimEnd());
+      if (!line.trim()) return;
+
+      onLine?.(line);
+      this.server.sendLoggingMessage({ level: 'info', logger: loggerName, data: line }).catch(() => {
+        // Notifications are best-effort; the client may have disconnected
+      });
+
+      if (progressToken !== undefined && sendNotification) {
+        progress += 1;
+        sendNotification({
+          method: 'notifications/progress',
+          params: { progressToken, progress, message: line },
+        }).catch(() => {});
+      }
+    };
+
+    return {
+      write: (chunk, stream) => {
+        const lines = (buffers[stream] + chunk).split(/\r?\n/);
+        buffers[stream] = lines.pop() ?? '';
+        lines.forEach(emit);
+      },
+      flush: () => {
+        for (const stream of ['stdout', 'stderr'] as const) {
+          if (buffers[stream]) emit(buffers[stream]);
+          buffers[stream] = '';
+        }
+      },
+    };
+  }
+
   private setupToolHandlers() {
     this.server.setRequestHandler(ListToolsRequestSchema, async () => {
       return {
         tools: [
           {
             name: 'start-sst-dev',
-            description: 'Start SST in LIVE MODE (local development with hot-reloading). When user says "start live mode" or "start sst dev", use this tool. Runs "npx sst dev".',
+            description: 'Start SST in LIVE MODE (local development with hot-reloading). When user says "start live mode" or "start sst dev", use this tool. Runs "sst dev" with the workspace sst binary.',
             inputSchema: {
               type: 'object',
               properties: {
@@ -133,13 +418,35 @@ class MCPSSTServer {
                   type: 'string',
                   description: 'Absolute path to the workspace/project root directory',
                 },
+                profile: {
+                  type: 'string',
+                  description: 'Env profile to load; becomes the active profile (default: the active profile)',
+                },
+                maxRestarts: {
+                  type: 'number',
+                  description: `Restarts in a row after sst dev exits unexpectedly before giving up; 0 disables (default: ${SSTConfig.DEV_MAX_RESTARTS})`,
+                  minimum: 0,
+                },
+                restartBackoffMs: {
+                  type: 'number',
+                  description: `Delay before the first restart, doubled for each further one (default: ${SSTConfig.DEV_RESTART_BACKOFF_MS})`,
+                  minimum: 0,
+                },
+                wait: {
+                  type: 'boolean',
+                  description: 'Wait until the first deploy completes or fails instead of returning right away (default: false)',
+                },
+                timeoutMs: {
+                  type: 'number',
+                  description: `Maximum time to wait with wait: true, in milliseconds (default: ${SSTConfig.DEV_READY_TIMEOUT_MS})`,
+                },
               },
               required: ['workspaceRoot'],
             },
           },
           {
             name: 'stop-sst-dev',
-            description: 'Stop the running SST live mode server.',
+            description: 'Stop the running SST live mode server for a workspace. Other workspaces are not affected.',
             inputSchema: {
               type: 'object',
               properties: {
@@ -153,7 +460,7 @@ class MCPSSTServer {
           },
           {
             name: 'sst-deploy',
-            description: 'Deploy to AWS stage (NOT live mode). When user says "deploy to dev" or "deploy to dev stage/mode", use this with stage="dev". When they say "deploy to production", use stage="production". Runs "npx sst deploy --stage <stage>".',
+            description: 'Deploy to AWS stage (NOT live mode). When user says "deploy to dev" or "deploy to dev stage/mode", use this with stage="dev". When they say "deploy to production", use stage="production". Runs "sst deploy --stage <stage>" with the workspace sst binary.',
             inputSchema: {
               type: 'object',
               properties: {
@@ -166,6 +473,14 @@ class MCPSSTServer {
                   description: 'Deployment stage (default: "dev")',
                   default: 'dev',
                 },
+                async: {
+                  type: 'boolean',
+                  description: 'Run in the background and return a job ID immediately (see get-sst-job)',
+                },
+                confirmationToken: {
+                  type: 'string',
+                  description: 'Token returned by the first call when the stage is protected by .sst/mcp-policy.json',
+                },
               },
               required: ['workspaceRoot'],
             },
@@ -185,13 +500,21 @@ class MCPSSTServer {
                   description: 'Deployment stage (default: "dev")',
                   default: 'dev',
                 },
+                async: {
+                  type: 'boolean',
+                  description: 'Run in the background and return a job ID immediately (see get-sst-job)',
+                },
+                confirmationToken: {
+                  type: 'string',
+                  description: 'Token returned by the first call when the stage is protected by .sst/mcp-policy.json',
+                },
               },
               required: ['workspaceRoot'],
             },
           },
           {
             name: 'get-sst-status',
-            description: 'Get detailed status of the SST development server (PID, uptime, last log entry).',
+            description: 'Get detailed status of the SST development server for a workspace (PID, uptime, last log entry, session state).',
             inputSchema: {
               type: 'object',
               properties: {
@@ -203,6 +526,14 @@ class MCPSSTServer {
               required: ['workspaceRoot'],
             },
           },
+          {
+            name: 'list-sst-dev-sessions',
+            description: 'List all SST live mode sessions started by this server, one per workspace (PID, state, uptime, log path).',
+            inputSchema: {
+              type: 'object',
+              properties: {},
+            },
+          },
           {
             name: 'sst-debug',
             description: 'Get debug information about MCP server paths and environment.',
@@ -219,7 +550,7 @@ class MCPSSTServer {
           },
           {
             name: 'get-sst-logs',
-            description: 'Get the last N lines from the SST log file.',
+            description: 'Get the last N lines from the SST log file. Pass any filter (since, until, include, exclude, name, severity, session) or a cursor to get a paged JSON result instead.',
             inputSchema: {
               type: 'object',
               properties: {
@@ -229,8 +560,44 @@ class MCPSSTServer {
                 },
                 lines: {
                   type: 'number',
-                  description: 'Number of lines to return (default: 50)',
-                  default: 50,
+                  description: 'Number of lines to return, or page size in query mode (default: the defaultLogLines setting, 50)',
+                },
+                since: {
+                  type: 'string',
+                  description: 'Only lines at or after this ISO timestamp',
+                },
+                until: {
+                  type: 'string',
+                  description: 'Only lines at or before this ISO timestamp',
+                },
+                include: {
+                  type: 'string',
+                  description: 'Only lines matching this regular expression (case-insensitive)',
+                },
+                exclude: {
+                  type: 'string',
+                  description: 'Drop lines matching this regular expression (case-insensitive)',
+                },
+                name: {
+                  type: 'string',
+                  description: 'Only lines mentioning this function or resource name',
+                },
+                severity: {
+                  type: 'string',
+                  enum: LOG_SEVERITIES,
+                  description: 'Minimum severity to return',
+                },
+                session: {
+                  type: 'number',
+                  description: 'Only the Nth dev/deploy session in the log (1 = first, -1 = most recent)',
+                },
+                cursor: {
+                  type: 'string',
+                  description: 'nextCursor from a previous query to page further back',
+                },
+                logId: {
+                  type: 'string',
+                  description: 'Read an older log from list-sst-log-sessions instead of the current one (default: "current")',
                 },
               },
               required: ['workspaceRoot'],
@@ -238,7 +605,39 @@ class MCPSSTServer {
           },
           {
             name: 'get-sst-errors',
-            description: 'Extract only error messages from SST logs.',
+            description: 'Extract errors from SST logs as structured JSON: multi-line errors grouped with their stack frames, deduplicated by fingerprint (count, first/last seen) and classified (typescript-build, esbuild-bundle, lambda-runtime, pulumi-infra, aws-permission, other).',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                workspaceRoot: {
+                  type: 'string',
+                  description: 'Absolute path to the workspace/project root directory',
+                },
+                category: {
+                  type: 'string',
+                  enum: ERROR_CATEGORIES,
+                  description: 'Only return errors of this category',
+                },
+                session: {
+                  type: 'number',
+                  description: 'Only errors from the Nth dev/deploy session in the log (1 = first, -1 = most recent)',
+                },
+                limit: {
+                  type: 'number',
+                  description: 'Maximum number of error clusters to return, most recent first (default: 20)',
+                  default: 20,
+                },
+                logId: {
+                  type: 'string',
+                  description: 'Read an older log from list-sst-log-sessions instead of the current one (default: "current")',
+                },
+              },
+              required: ['workspaceRoot'],
+            },
+          },
+          {
+            name: 'list-sst-log-sessions',
+            description: 'List the log files kept for the workspace, newest first: the current .sst/sst-mcp.log, earlier dev session logs rotated into .sst/logs/, and each deploy/remove run\'s own log. Pass an id as logId to get-sst-logs or get-sst-errors to read one.',
             inputSchema: {
               type: 'object',
               properties: {
@@ -246,13 +645,23 @@ class MCPSSTServer {
                   type: 'string',
                   description: 'Absolute path to the workspace/project root directory',
                 },
+                kind: {
+                  type: 'string',
+                  enum: ['current', 'archive', 'deploy'],
+                  description: 'Only logs of this kind',
+                },
+                limit: {
+                  type: 'number',
+                  description: 'Maximum number of logs to return (default: 20)',
+                  default: 20,
+                },
               },
               required: ['workspaceRoot'],
             },
           },
           {
             name: 'list-sst-resources',
-            description: 'List all deployed SST resources (APIs, functions, buckets) for a stage.',
+            description: 'List a stage\'s deployed resources from its saved outputs, grouped by type (Function, Api, Bucket, Dynamo, StaticSite...) with URLs and ARNs. With compareTo, diff two stages instead.',
             inputSchema: {
               type: 'object',
               properties: {
@@ -262,8 +671,11 @@ class MCPSSTServer {
                 },
                 stage: {
                   type: 'string',
-                  description: 'Stage to list resources for (default: "dev")',
-                  default: 'dev',
+                  description: 'Stage to list resources for (default: outputs of the last deploy)',
+                },
+                compareTo: {
+                  type: 'string',
+                  description: 'Second stage; returns what is added, removed or changed going from stage to compareTo',
                 },
               },
               required: ['workspaceRoot'],
@@ -271,7 +683,7 @@ class MCPSSTServer {
           },
           {
             name: 'list-sst-stages',
-            description: 'List all deployed SST stages.',
+            description: 'List deployed SST stages from SSM with app name, last-modified time and resource count. Distinguishes missing credentials ("auth"), missing region ("region") and no stages ("empty").',
             inputSchema: {
               type: 'object',
               properties: {
@@ -279,6 +691,18 @@ class MCPSSTServer {
                   type: 'string',
                   description: 'Absolute path to the workspace/project root directory',
                 },
+                allApps: {
+                  type: 'boolean',
+                  description: 'List stages of every SST app in the account, not just the one in sst.config.ts',
+                },
+                region: {
+                  type: 'string',
+                  description: 'AWS region (default: from the AWS environment/profile)',
+                },
+                profile: {
+                  type: 'string',
+                  description: 'AWS profile (default: AWS_PROFILE)',
+                },
               },
               required: ['workspaceRoot'],
             },
@@ -297,13 +721,21 @@ class MCPSSTServer {
                   type: 'string',
                   description: 'Stage name to remove',
                 },
+                async: {
+                  type: 'boolean',
+                  description: 'Run in the background and return a job ID immediately (see get-sst-job)',
+                },
+                confirmationToken: {
+                  type: 'string',
+                  description: 'Token returned by the first call when the stage is protected by .sst/mcp-policy.json',
+                },
               },
               required: ['workspaceRoot', 'stage'],
             },
           },
           {
-            name: 'get-sst-env',
-            description: 'Read environment variables from env.sh file.',
+            name: 'list-sst-deployments',
+            description: 'List past sst-deploy, remove-sst-stage and sst-restart-for-infra runs from the deployment ledger, newest first (stage, status, exit code, duration, git commit/branch).',
             inputSchema: {
               type: 'object',
               properties: {
@@ -311,13 +743,32 @@ class MCPSSTServer {
                   type: 'string',
                   description: 'Absolute path to the workspace/project root directory',
                 },
+                stage: {
+                  type: 'string',
+                  description: 'Only runs for this stage',
+                },
+                tool: {
+                  type: 'string',
+                  enum: ['sst-deploy', 'remove-sst-stage', 'sst-restart-for-infra'],
+                  description: 'Only runs triggered by this tool',
+                },
+                status: {
+                  type: 'string',
+                  enum: ['running', 'succeeded', 'failed'],
+                  description: 'Only runs with this status',
+                },
+                limit: {
+                  type: 'number',
+                  description: 'Maximum number of runs to return (default: 20)',
+                  default: 20,
+                },
               },
               required: ['workspaceRoot'],
             },
           },
           {
-            name: 'set-sst-env',
-            description: 'Update environment variables in env.sh (triggers auto-restart if dev is running).',
+            name: 'get-sst-deployment',
+            description: 'Get one deployment ledger record with the tail of that run\'s captured output.',
             inputSchema: {
               type: 'object',
               properties: {
@@ -325,17 +776,21 @@ class MCPSSTServer {
                   type: 'string',
                   description: 'Absolute path to the workspace/project root directory',
                 },
-                variables: {
-                  type: 'object',
-                  description: 'Key-value pairs of environment variables',
+                id: {
+                  type: 'string',
+                  description: 'Deployment id from list-sst-deployments',
+                },
+                lines: {
+                  type: 'number',
+                  description: 'Number of output lines to include from the end (default: the defaultLogLines setting, 50)',
                 },
               },
-              required: ['workspaceRoot', 'variables'],
+              required: ['workspaceRoot', 'id'],
             },
           },
           {
-            name: 'invoke-sst-function',
-            description: 'Invoke a Lambda function directly for testing.',
+            name: 'get-sst-env',
+            description: 'Read environment variables from env.sh as JSON. Secret-looking values are masked; lines that cannot be parsed are listed as issues.',
             inputSchema: {
               type: 'object',
               properties: {
@@ -343,27 +798,45 @@ class MCPSSTServer {
                   type: 'string',
                   description: 'Absolute path to the workspace/project root directory',
                 },
-                functionName: {
+                profile: {
                   type: 'string',
-                  description: 'Name of the Lambda function to invoke',
+                  description: 'Env profile to read (default: the active profile)',
                 },
-                payload: {
+              },
+              required: ['workspaceRoot'],
+            },
+          },
+          {
+            name: 'set-sst-env',
+            description: 'Set or remove environment variables in env.sh, keeping comments and ordering (triggers auto-restart if dev is running).',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                workspaceRoot: {
                   type: 'string',
-                  description: 'JSON payload (default: "{}")',
-                  default: '{}',
+                  description: 'Absolute path to the workspace/project root directory',
                 },
-                stage: {
+                variables: {
+                  type: 'object',
+                  description: 'Key-value pairs of environment variables to set; values are quoted and escaped',
+                  additionalProperties: { type: 'string' },
+                },
+                unset: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Names of variables to remove',
+                },
+                profile: {
                   type: 'string',
-                  description: 'Stage where function is deployed (default: "dev")',
-                  default: 'dev',
+                  description: 'Env profile to edit (default: the active profile)',
                 },
               },
-              required: ['workspaceRoot', 'functionName'],
+              required: ['workspaceRoot'],
             },
           },
           {
-            name: 'cleanup-sst',
-            description: 'Remove .sst directory and local files for a fresh start (does not remove deployed resources).',
+            name: 'list-sst-env-profiles',
+            description: 'List env profiles (env.sh and env.<profile>.sh) and which one sst dev loads.',
             inputSchema: {
               type: 'object',
               properties: {
@@ -376,8 +849,8 @@ class MCPSSTServer {
             },
           },
           {
-            name: 'validate-sst-workspace',
-            description: 'Verify directory is a valid SST project.',
+            name: 'create-sst-env-profile',
+            description: 'Create an env profile (env.<profile>.sh), empty or copied from another profile.',
             inputSchema: {
               type: 'object',
               properties: {
@@ -385,77 +858,277 @@ class MCPSSTServer {
                   type: 'string',
                   description: 'Absolute path to the workspace/project root directory',
                 },
+                name: {
+                  type: 'string',
+                  description: 'Profile name (letters, digits, "_", "-")',
+                },
+                copyFrom: {
+                  type: 'string',
+                  description: 'Profile to copy, e.g. "default"',
+                },
+                variables: {
+                  type: 'object',
+                  description: 'Variables to set in the new profile',
+                  additionalProperties: { type: 'string' },
+                },
               },
-              required: ['workspaceRoot'],
+              required: ['workspaceRoot', 'name'],
             },
           },
           {
-            name: 'health-check',
-            description: 'Check MCP server health status.',
+            name: 'switch-sst-env-profile',
+            description: 'Make an env profile active. A running sst dev restarts with its variables.',
             inputSchema: {
               type: 'object',
-              properties: {},
+              properties: {
+                workspaceRoot: {
+                  type: 'string',
+                  description: 'Absolute path to the workspace/project root directory',
+                },
+                name: {
+                  type: 'string',
+                  description: 'Profile name ("default" is env.sh)',
+                },
+              },
+              required: ['workspaceRoot', 'name'],
             },
           },
           {
-            name: 'sst-diff',
-            description: 'Preview infrastructure changes before deployment.',
+            name: 'invoke-sst-function',
+            description: 'Invoke a Lambda function directly for testing. While sst dev is running, the local console output for the request is returned with the response.',
             inputSchema: {
               type: 'object',
               properties: {
-                workspaceRoot: { type: 'string', description: 'Absolute path to workspace' },
-                target: { type: 'string', description: 'Specific component to diff' },
-                dev: { type: 'boolean', description: 'Compare to dev version' }
+                workspaceRoot: {
+                  type: 'string',
+                  description: 'Absolute path to the workspace/project root directory',
+                },
+                functionName: {
+                  type: 'string',
+                  description: 'SST logical name (resolved through the stage outputs), physical function name or ARN',
+                },
+                payload: {
+                  type: 'string',
+                  description: 'JSON payload (default: "{}")',
+                },
+                fixture: {
+                  type: 'string',
+                  description: 'Name of a saved payload or built-in template (see list-sst-payloads); replaces payload',
+                },
+                invocationType: {
+                  type: 'string',
+                  enum: INVOCATION_TYPES,
+                  description: 'RequestResponse waits for the result and returns logs; Event queues the call; DryRun only checks permissions (default: RequestResponse)',
+                },
+                qualifier: {
+                  type: 'string',
+                  description: 'Version or alias to invoke',
+                },
+                stage: {
+                  type: 'string',
+                  description: 'Stage whose saved outputs resolve a logical functionName (default: "dev"). It does not pick the AWS account or region; use profile and region for that',
+                  default: 'dev',
+                },
+                region: {
+                  type: 'string',
+                  description: 'AWS region (default: from the function ARN, then the AWS environment)',
+                },
+                profile: {
+                  type: 'string',
+                  description: 'AWS profile (default: AWS_PROFILE)',
+                },
               },
-              required: ['workspaceRoot'],
+              required: ['workspaceRoot', 'functionName'],
             },
           },
           {
-            name: 'sst-refresh',
-            description: 'Sync local state with cloud provider resources.',
+            name: 'save-sst-payload',
+            description: 'Save a named Lambda payload fixture for invoke-sst-function, from JSON or a built-in event template.',
             inputSchema: {
               type: 'object',
               properties: {
-                workspaceRoot: { type: 'string', description: 'Absolute path to workspace' },
-                target: { type: 'string', description: 'Specific component to refresh' }
+                workspaceRoot: {
+                  type: 'string',
+                  description: 'Absolute path to the workspace/project root directory',
+                },
+                name: {
+                  type: 'string',
+                  description: 'Fixture name (letters, digits, ".", "_", "-")',
+                },
+                payload: {
+                  type: 'string',
+                  description: 'JSON payload to save',
+                },
+                template: {
+                  type: 'string',
+                  enum: Object.keys(PAYLOAD_TEMPLATES),
+                  description: 'Start from a built-in event template instead of payload',
+                },
               },
-              required: ['workspaceRoot'],
+              required: ['workspaceRoot', 'name'],
             },
           },
           {
-            name: 'sst-unlock',
-            description: 'Release deployment lock.',
+            name: 'list-sst-payloads',
+            description: 'List saved Lambda payload fixtures and built-in event templates.',
             inputSchema: {
               type: 'object',
               properties: {
-                workspaceRoot: { type: 'string', description: 'Absolute path to workspace' }
+                workspaceRoot: {
+                  type: 'string',
+                  description: 'Absolute path to the workspace/project root directory',
+                },
               },
               required: ['workspaceRoot'],
             },
           },
           {
-            name: 'sst-secret-set',
-            description: 'Set a secret value.',
+            name: 'cleanup-sst',
+            description: 'Remove .sst directory and local files for a fresh start (does not remove deployed resources).',
             inputSchema: {
               type: 'object',
               properties: {
-                workspaceRoot: { type: 'string', description: 'Absolute path to workspace' },
-                name: { type: 'string', description: 'Secret name' },
-                value: { type: 'string', description: 'Secret value' },
-                fallback: { type: 'boolean', description: 'Set as fallback value' }
+                workspaceRoot: {
+                  type: 'string',
+                  description: 'Absolute path to the workspace/project root directory',
+                },
               },
-              required: ['workspaceRoot', 'name', 'value'],
+              required: ['workspaceRoot'],
             },
           },
           {
-            name: 'sst-secret-get',
-            description: 'Get a secret value.',
+            name: 'validate-sst-workspace',
+            description: 'Verify directory is a valid SST project.',
             inputSchema: {
               type: 'object',
               properties: {
-                workspaceRoot: { type: 'string', description: 'Absolute path to workspace' },
+                workspaceRoot: {
+                  type: 'string',
+                  description: 'Absolute path to the workspace/project root directory',
+                },
+              },
+              required: ['workspaceRoot'],
+            },
+          },
+          {
+            name: 'get-sst-job',
+            description: 'Get the status, output so far and final result of a background job started with async: true.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                jobId: { type: 'string', description: 'Job ID returned when the job was started' },
+                lines: { type: 'number', description: 'Number of output lines to include from the end (default: the defaultLogLines setting, 50)' },
+              },
+              required: ['jobId'],
+            },
+          },
+          {
+            name: 'wait-sst-job',
+            description: 'Wait for a background job to finish (or until timeoutMs elapses), then return its status and result.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                jobId: { type: 'string', description: 'Job ID returned when the job was started' },
+                timeoutMs: { type: 'number', description: 'Maximum time to wait in milliseconds (default: the jobWaitTimeoutMs setting, 60000)' },
+                lines: { type: 'number', description: 'Number of output lines to include from the end (default: the defaultLogLines setting, 50)' },
+              },
+              required: ['jobId'],
+            },
+          },
+          {
+            name: 'cancel-sst-job',
+            description: 'Cancel a running background job.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                jobId: { type: 'string', description: 'Job ID returned when the job was started' },
+              },
+              required: ['jobId'],
+            },
+          },
+          {
+            name: 'health-check',
+            description: 'Check MCP server health status.',
+            inputSchema: {
+              type: 'object',
+              properties: {},
+            },
+          },
+          {
+            name: 'get-sst-mcp-config',
+            description: 'Show the effective server settings (timeouts, rate limit, log lines, sst dev arguments, log locations) and where each came from: default, user config file, workspace .sst-mcp.json or environment variable.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                workspaceRoot: { type: 'string', description: 'Absolute path to workspace; omit to see the server-wide settings only' },
+              },
+            },
+          },
+          {
+            name: 'sst-diff',
+            description: 'Preview infrastructure changes before deployment. Returns a JSON change plan (resource URN, type, action, changed properties, summary counts, destructive flag) followed by the raw CLI output.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                workspaceRoot: { type: 'string', description: 'Absolute path to workspace' },
+                target: { type: 'string', description: 'Specific component to diff' },
+                dev: { type: 'boolean', description: 'Compare to dev version' },
+                async: { type: 'boolean', description: 'Run in the background and return a job ID immediately' }
+              },
+              required: ['workspaceRoot'],
+            },
+          },
+          {
+            name: 'sst-refresh',
+            description: 'Sync local state with cloud provider resources.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                workspaceRoot: { type: 'string', description: 'Absolute path to workspace' },
+                target: { type: 'string', description: 'Specific component to refresh' },
+                async: { type: 'boolean', description: 'Run in the background and return a job ID immediately' }
+              },
+              required: ['workspaceRoot'],
+            },
+          },
+          {
+            name: 'sst-unlock',
+            description: 'Release deployment lock.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                workspaceRoot: { type: 'string', description: 'Absolute path to workspace' }
+              },
+              required: ['workspaceRoot'],
+            },
+          },
+          {
+            name: 'sst-secret-set',
+            description: 'Set a secret value. The value is passed to sst on stdin, not as an argument.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                workspaceRoot: { type: 'string', description: 'Absolute path to workspace' },
+                name: { type: 'string', description: 'Secret name' },
+                value: { type: 'string', description: 'Secret value' },
+                fallback: { type: 'boolean', description: 'Set as fallback value' },
+                stage: { type: 'string', description: 'Stage (defaults to your personal stage)' },
+                confirmationToken: { type: 'string', description: 'Token returned by the first call when the stage is protected' }
+              },
+              required: ['workspaceRoot', 'name', 'value'],
+            },
+          },
+          {
+            name: 'sst-secret-get',
+            description: 'Get the value of one secret. Returns JSON with name, stage and value; errors if the secret is not set.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                workspaceRoot: { type: 'string', description: 'Absolute path to workspace' },
                 name: { type: 'string', description: 'Secret name' },
-                fallback: { type: 'boolean', description: 'Get fallback value' }
+                fallback: { type: 'boolean', description: 'Get fallback value' },
+                stage: { type: 'string', description: 'Stage (defaults to your personal stage)' },
+                mask: { type: 'boolean', description: 'Return only the first and last characters of the value (default: false)' }
               },
               required: ['workspaceRoot', 'name'],
             },
@@ -467,7 +1140,8 @@ class MCPSSTServer {
               type: 'object',
               properties: {
                 workspaceRoot: { type: 'string', description: 'Absolute path to workspace' },
-                fallback: { type: 'boolean', description: 'List fallback secrets' }
+                fallback: { type: 'boolean', description: 'List fallback secrets' },
+                stage: { type: 'string', description: 'Stage (defaults to your personal stage)' }
               },
               required: ['workspaceRoot'],
             },
@@ -480,22 +1154,83 @@ class MCPSSTServer {
               properties: {
                 workspaceRoot: { type: 'string', description: 'Absolute path to workspace' },
                 name: { type: 'string', description: 'Secret name' },
-                fallback: { type: 'boolean', description: 'Remove fallback value' }
+                fallback: { type: 'boolean', description: 'Remove fallback value' },
+                stage: { type: 'string', description: 'Stage (defaults to your personal stage)' },
+                confirmationToken: { type: 'string', description: 'Token returned by the first call when the stage is protected' }
               },
               required: ['workspaceRoot', 'name'],
             },
           },
+          {
+            name: 'sst-secret-load',
+            description: 'Set every secret in a dotenv file (sst secret load). Returns the names loaded and any lines that could not be parsed.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                workspaceRoot: { type: 'string', description: 'Absolute path to workspace' },
+                file: { type: 'string', description: 'Dotenv file, relative to workspaceRoot and inside it' },
+                fallback: { type: 'boolean', description: 'Set as fallback values' },
+                stage: { type: 'string', description: 'Stage (defaults to your personal stage)' },
+                confirmationToken: { type: 'string', description: 'Token returned by the first call when the stage is protected' }
+              },
+              required: ['workspaceRoot', 'file'],
+            },
+          },
+          {
+            name: 'sst-secret-unload',
+            description: 'Write every secret of a stage to a dotenv file (.env, .env.<name> or <name>.env) that sst-secret-load can read back. The file holds plaintext values and is readable by its owner only. Files tracked by git are never replaced.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                workspaceRoot: { type: 'string', description: 'Absolute path to workspace' },
+                file: { type: 'string', description: 'Dotenv file to write, relative to workspaceRoot and inside it' },
+                fallback: { type: 'boolean', description: 'Export fallback values' },
+                stage: { type: 'string', description: 'Stage (defaults to your personal stage)' },
+                overwrite: { type: 'boolean', description: 'Replace the file if it exists (default: false)' },
+                confirmationToken: { type: 'string', description: 'Token returned by the first call when the stage is protected' }
+              },
+              required: ['workspaceRoot', 'file'],
+            },
+          },
+          {
+            name: 'sst-secret-diff',
+            description: 'Compare the secrets of two stages by name: which are missing from either stage and which are set to different values. Values are never returned.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                workspaceRoot: { type: 'string', description: 'Absolute path to workspace' },
+                stage: { type: 'string', description: 'Stage (defaults to your personal stage)' },
+                compareTo: { type: 'string', description: 'Stage to compare with' },
+                fallback: { type: 'boolean', description: 'Compare fallback values' }
+              },
+              required: ['workspaceRoot', 'compareTo'],
+            },
+          },
           {
             name: 'sst-shell-exec',
-            description: 'Execute command with linked resources in environment.',
+            description: 'Run a command with linked resources in its environment (sst shell), without a shell. Returns JSON with exitCode, stdout, stderr and durationMs. Executables can be limited per workspace in .sst/mcp-shell-policy.json.',
             inputSchema: {
               type: 'object',
               properties: {
                 workspaceRoot: { type: 'string', description: 'Absolute path to workspace' },
-                command: { type: 'string', description: 'Command to execute' },
-                target: { type: 'string', description: 'Specific component context' }
+                command: {
+                  type: 'string',
+                  description: 'Command line, split like a shell would (quotes and backslashes) but never run through one: no pipes, redirects, globs or $VAR expansion. Use argv or command, not both.',
+                },
+                argv: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Executable and arguments, passed as-is',
+                },
+                target: { type: 'string', description: 'Specific component context' },
+                cwd: { type: 'string', description: 'Working directory, relative to workspaceRoot and inside it (default: workspaceRoot)' },
+                env: {
+                  type: 'object',
+                  additionalProperties: { type: 'string' },
+                  description: 'Extra environment variables for the command',
+                },
               },
-              required: ['workspaceRoot', 'command'],
+              required: ['workspaceRoot'],
             },
           },
           {
@@ -504,6 +1239,7 @@ class MCPSSTServer {
             inputSchema: {
               type: 'object',
               properties: {
+                workspaceRoot: { type: 'string', description: 'Absolute path to workspace whose sst to upgrade (optional; without it the latest sst from npm runs the upgrade)' },
                 version: { type: 'string', description: 'Version to upgrade to (optional)' }
               },
             },
@@ -523,184 +1259,474 @@ class MCPSSTServer {
       };
     });
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      const result = await this.callTool(request, extra);
+      // These return secret values on purpose, masked or not as the caller asked
+      return UNREDACTED_TOOLS.includes(request.params.name) ? result : this.redactor.redactDeep(result);
+    });
+  }
 
-      try {
-        // Rate limiting
-        await this.checkRateLimit();
-        
-        switch (name) {
-          case 'start-sst-dev':
-            return await this.startSSTDev(args as { workspaceRoot: string });
-          case 'stop-sst-dev':
-            return await this.stopSSTDev(args as { workspaceRoot: string });
-          case 'sst-deploy':
-            return await this.sstDeploy(args as { workspaceRoot: string; stage?: string });
-          case 'sst-restart-for-infra':
-            return await this.sstRestartForInfra(args as { workspaceRoot: string; stage?: string });
-          case 'get-sst-status':
-            return await this.getSSTStatus(args as { workspaceRoot: string });
-          case 'sst-debug':
-            return await this.getSSTDebugInfo(args as { workspaceRoot: string });
-          case 'get-sst-logs':
-            return await this.getSSTLogs(args as { workspaceRoot: string; lines?: number });
-          case 'get-sst-errors':
-            return await this.getSSTErrors(args as { workspaceRoot: string });
-          case 'list-sst-resources':
-            return await this.listSSTResources(args as { workspaceRoot: string; stage?: string });
-          case 'list-sst-stages':
-            return await this.listSSTStages(args as { workspaceRoot: string });
-          case 'remove-sst-stage':
-            return await this.removeSSTStage(args as { workspaceRoot: string; stage: string });
-          case 'get-sst-env':
-            return await this.getSSTEnv(args as { workspaceRoot: string });
-          case 'set-sst-env':
-            return await this.setSSTEnv(args as { workspaceRoot: string; variables: Record<string, string> });
-          case 'invoke-sst-function':
-            return await this.invokeSSTFunction(args as { workspaceRoot: string; functionName: string; payload?: string; stage?: string });
-          case 'cleanup-sst':
-            return await this.cleanupSST(args as { workspaceRoot: string });
-          case 'validate-sst-workspace':
-            return await this.validateSSTWorkspace(args as { workspaceRoot: string });
-          case 'health-check':
-            return await this.healthCheck();
-          case 'sst-diff':
-            return await this.sstDiff(args as { workspaceRoot: string; target?: string; dev?: boolean });
-          case 'sst-refresh':
-            return await this.sstRefresh(args as { workspaceRoot: string; target?: string });
-          case 'sst-unlock':
-            return await this.sstUnlock(args as { workspaceRoot: string });
-          case 'sst-secret-set':
-            return await this.sstSecretSet(args as { workspaceRoot: string; name: string; value: string; fallback?: boolean });
-          case 'sst-secret-get':
-            return await this.sstSecretGet(args as { workspaceRoot: string; name: string; fallback?: boolean });
-          case 'sst-secret-list':
-            return await this.sstSecretList(args as { workspaceRoot: string; fallback?: boolean });
-          case 'sst-secret-remove':
-            return await this.sstSecretRemove(args as { workspaceRoot: string; name: string; fallback?: boolean });
-          case 'sst-shell-exec':
-            return await this.sstShellExec(args as { workspaceRoot: string; command: string; target?: string });
-          case 'sst-upgrade':
-            return await this.sstUpgrade(args as { version?: string });
-          case 'sst-version':
-            return await this.sstVersion(args as { workspaceRoot: string });
-          default:
-            throw new Error(`Unknown tool: ${name}`);
+  private async callTool(request: CallToolRequest, extra: RequestHandlerExtra<ServerRequest, ServerNotification>) {
+    const { name, arguments: args } = request.params;
+    const reporter = this.createOutputReporter(name, request.params._meta?.progressToken, extra.sendNotification);
+    // The SDK aborts extra.signal when the client sends notifications/cancelled
+    const context: OperationContext = { reporter, signal: extra.signal };
+
+    try {
+      // Rate limiting
+      await this.checkRateLimit();
+
+      const workspaceRoot = (args as { workspaceRoot?: unknown } | undefined)?.workspaceRoot;
+      if (workspaceRoot !== undefined) this.registerWorkspace(workspaceRoot as string);
+
+      // Protected stages: refuse disallowed tools and ask for confirmation before running
+      if (POLICY_TOOLS.includes(name)) {
+        const confirmation = await this.enforcePolicy(name, args as GuardedArgs, context);
+        if (confirmation) return confirmation;
+      }
+
+      if (JOB_TOOLS.includes(name) && (args as { async?: boolean } | undefined)?.async) {
+        return this.startJob(name, args as { workspaceRoot: string } & Record<string, unknown>);
+      }
+      
+      switch (name) {
+        case 'start-sst-dev':
+          return await this.startSSTDev(args as StartDevArgs, context);
+        case 'stop-sst-dev':
+          return await this.stopSSTDev(args as { workspaceRoot: string }, context);
+        case 'sst-deploy':
+          return await this.sstDeploy(args as { workspaceRoot: string; stage?: string }, context);
+        case 'sst-restart-for-infra':
+          return await this.sstRestartForInfra(args as { workspaceRoot: string; stage?: string }, context);
+        case 'get-sst-status':
+          return await this.getSSTStatus(args as { workspaceRoot: string });
+        case 'list-sst-dev-sessions':
+          return await this.listSSTDevSessions();
+        case 'sst-debug':
+          return await this.getSSTDebugInfo(args as { workspaceRoot: string });
+        case 'get-sst-logs':
+          return await this.getSSTLogs(args as { workspaceRoot: string; lines?: number; logId?: string } & Partial<LogQuery>);
+        case 'get-sst-errors':
+          return await this.getSSTErrors(args as { workspaceRoot: string; category?: ErrorCategory; session?: number; limit?: number; logId?: string });
+        case 'list-sst-log-sessions':
+          return await this.listSSTLogSessions(args as { workspaceRoot: string; kind?: LogFileKind; limit?: number });
+        case 'list-sst-resources':
+          return await this.listSSTResources(args as { workspaceRoot: string; stage?: string; compareTo?: string });
+        case 'list-sst-stages':
+          return await this.listSSTStages(args as { workspaceRoot: string; allApps?: boolean; region?: string; profile?: string });
+        case 'remove-sst-stage':
+          return await this.removeSSTStage(args as { workspaceRoot: string; stage: string }, context);
+        case 'list-sst-deployments':
+          return await this.listSSTDeployments(args as { workspaceRoot: string; stage?: string; tool?: DeploymentTool; status?: DeploymentStatus; limit?: number });
+        case 'get-sst-deployment':
+          return await this.getSSTDeployment(args as { workspaceRoot: string; id: string; lines?: number });
+        case 'get-sst-env':
+          return await this.getSSTEnv(args as { workspaceRoot: string; profile?: string });
+        case 'set-sst-env':
+          return await this.setSSTEnv(args as { workspaceRoot: string; variables?: Record<string, string>; unset?: string[]; profile?: string });
+        case 'list-sst-env-profiles':
+          return await this.listSSTEnvProfiles(args as { workspaceRoot: string });
+        case 'create-sst-env-profile':
+          return await this.createSSTEnvProfile(args as { workspaceRoot: string; name: string; copyFrom?: string; variables?: Record<string, string> });
+        case 'switch-sst-env-profile':
+          return await this.switchSSTEnvProfile(args as { workspaceRoot: string; name: string });
+        case 'invoke-sst-function':
+          return await this.invokeSSTFunction(args as InvokeArgs, context);
+        case 'save-sst-payload':
+          return await this.saveSSTPayload(args as { workspaceRoot: string; name: string; payload?: string; template?: string });
+        case 'list-sst-payloads':
+          return await this.listSSTPayloads(args as { workspaceRoot: string });
+        case 'cleanup-sst':
+          return await this.cleanupSST(args as { workspaceRoot: string });
+        case 'validate-sst-workspace':
+          return await this.validateSSTWorkspace(args as { workspaceRoot: string });
+        case 'get-sst-job':
+          return await this.getSSTJob(args as { jobId: string; lines?: number });
+        case 'wait-sst-job':
+          return await this.waitSSTJob(args as { jobId: string; timeoutMs?: number; lines?: number });
+        case 'cancel-sst-job':
+          return await this.cancelSSTJob(args as { jobId: string });
+        case 'health-check':
+          return await this.healthCheck();
+        case 'get-sst-mcp-config':
+          return await this.getSSTMcpConfig(args as { workspaceRoot?: string });
+        case 'sst-diff':
+          return await this.sstDiff(args as { workspaceRoot: string; target?: string; dev?: boolean }, context);
+        case 'sst-refresh':
+          return await this.sstRefresh(args as { workspaceRoot: string; target?: string }, context);
+        case 'sst-unlock':
+          return await this.sstUnlock(args as { workspaceRoot: string });
+        case 'sst-secret-set':
+          return await this.sstSecretSet(args as { workspaceRoot: string; name: string; value: string; fallback?: boolean; stage?: string });
+        case 'sst-secret-get':
+          return await this.sstSecretGet(args as { workspaceRoot: string; name: string; fallback?: boolean; stage?: string; mask?: boolean });
+        case 'sst-secret-list':
+          return await this.sstSecretList(args as { workspaceRoot: string; fallback?: boolean; stage?: string });
+        case 'sst-secret-remove':
+          return await this.sstSecretRemove(args as { workspaceRoot: string; name: string; fallback?: boolean; stage?: string });
+        case 'sst-secret-load':
+          return await this.sstSecretLoad(args as { workspaceRoot: string; file: string; fallback?: boolean; stage?: string });
+        case 'sst-secret-unload':
+          return await this.sstSecretUnload(args as { workspaceRoot: string; file: string; fallback?: boolean; stage?: string; overwrite?: boolean });
+        case 'sst-secret-diff':
+          return await this.sstSecretDiff(args as { workspaceRoot: string; stage?: string; compareTo: string; fallback?: boolean });
+        case 'sst-shell-exec':
+          return await this.sstShellExec(args as ShellExecArgs, context);
+        case 'sst-upgrade':
+          return await this.sstUpgrade(args as { workspaceRoot?: string; version?: string }, context);
+        case 'sst-version':
+          return await this.sstVersion(args as { workspaceRoot: string });
+        default:
+          throw new Error(`Unknown tool: ${name}`);
+      }
+    } catch (error) {
+      this.logger.error('Tool execution error', {
+        tool: name,
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined
+      });
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true
+      };
+    }
+  }
+
+  private setupResourceHandlers() {
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      const workspaces = new Set([...this.knownWorkspaces, ...this.devSessions.keys()]);
+      const resources = [];
+
+      for (const workspaceRoot of workspaces) {
+        for (const resource of SST_RESOURCES) {
+          if (!existsSync(resource.getPath(workspaceRoot))) continue;
+          resources.push({
+            uri: buildResourceUri(workspaceRoot, resource.kind),
+            name: `${resource.name} (${path.basename(workspaceRoot)})`,
+            description: resource.description,
+            mimeType: resource.mimeType,
+          });
         }
-      } catch (error) {
-        this.logger.error('Tool execution error', {
-          tool: name,
-          error: error instanceof Error ? error.message : String(error),
-          stack: error instanceof Error ? error.stack : undefined
+      }
+
+      return { resources };
+    });
+
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return {
+        resourceTemplates: SST_RESOURCES.map(resource => ({
+          uriTemplate: `sst://{workspace}/${resource.kind}`,
+          name: resource.name,
+          description: `${resource.description}. {workspace} is the URL-encoded absolute workspace root.`,
+          mimeType: resource.mimeType,
+        })),
+      };
+    });
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+      const { workspaceRoot, resource } = this.resolveResourceUri(uri);
+      const filePath = resource.getPath(workspaceRoot);
+
+      if (!existsSync(filePath)) {
+        throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri} (${filePath} does not exist)`);
+      }
+
+      this.redactor.loadWorkspace(workspaceRoot);
+      let text = readFileSync(filePath, 'utf8');
+      if (resource.kind === 'logs') {
+        text = text.split('\n').slice(-SSTConfig.RESOURCE_LOG_LINES).join('\n');
+      }
+
+      return { contents: [{ uri, mimeType: resource.mimeType, text: this.redactor.redact(text) }] };
+    });
+
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      const { uri } = request.params;
+      const { workspaceRoot, resource } = this.resolveResourceUri(uri);
+
+      if (!this.resourceWatchers.has(uri)) {
+        const filePath = resource.getPath(workspaceRoot);
+        // chokidar misses a file created later if its directory does not exist yet, so watch the
+        // workspace and ignore everything that is not the file or a directory on the way to it
+        const watcher = watch(workspaceRoot, {
+          persistent: true,
+          ignoreInitial: true,
+          ignored: (watchedPath: string) => {
+            const rest = relative(watchedPath, filePath);
+            return rest === '..' || rest.startsWith(`..${path.sep}`) || path.isAbsolute(rest);
+          },
         });
-        
+        let pending: NodeJS.Timeout | null = null;
+
+        // Debounce so a busy log file does not flood the client
+        watcher.on('all', (_event, changedPath) => {
+          if (changedPath !== filePath || pending) return;
+          pending = setTimeout(() => {
+            pending = null;
+            this.server.sendResourceUpdated({ uri }).catch(() => {});
+          }, 250);
+        });
+
+        this.resourceWatchers.set(uri, watcher);
+        this.logger.info('Resource subscribed', { uri, filePath });
+      }
+
+      return {};
+    });
+
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      const { uri } = request.params;
+      const watcher = this.resourceWatchers.get(uri);
+
+      if (watcher) {
+        await watcher.close();
+        this.resourceWatchers.delete(uri);
+        this.logger.info('Resource unsubscribed', { uri });
+      }
+
+      return {};
+    });
+  }
+
+  private resolveResourceUri(uri: string) {
+    const parsed = parseResourceUri(uri);
+    if (!parsed) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource URI: ${uri}`);
+    }
+
+    try {
+      this.validateWorkspaceRoot(parsed.workspaceRoot);
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+    }
+
+    return parsed;
+  }
+
+  private async startSSTDev(
+    { workspaceRoot, profile, maxRestarts, restartBackoffMs, wait = false, timeoutMs = SSTConfig.DEV_READY_TIMEOUT_MS }: StartDevArgs,
+    context: OperationContext = {}
+  ) {
+    this.validateWorkspaceRoot(workspaceRoot);
+    this.logger.info('Starting SST dev', { workspaceRoot, profile });
+    
+    const existing = this.devSessions.get(workspaceRoot);
+    if (existing && (existing.state === 'starting' || existing.state === 'running')) {
+      const supervisor = readDevState(workspaceRoot);
+      if (supervisor?.state === 'crashed') {
         return {
           content: [
             {
               type: 'text',
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+              text: `SST dev for ${workspaceRoot} crashed and is no longer restarting (${supervisor.lastExit?.reason ?? 'unknown exit'}). Use stop-sst-dev, then start-sst-dev to start it again.`,
             },
           ],
-          isError: true
         };
       }
-    });
-  }
-
-  private async startSSTDev({ workspaceRoot }: { workspaceRoot: string }) {
-    this.validateWorkspaceRoot(workspaceRoot);
-    this.logger.info('Starting SST dev', { workspaceRoot });
-    
-    if (this.sstProcess) {
       return {
         content: [
           {
             type: 'text',
-            text: 'SST development process is already running. Use stop-sst-dev to stop it first.',
+            text: `SST development process is already running for ${workspaceRoot} (PID: ${existing.process.pid}). Use stop-sst-dev to stop it first.`,
           },
         ],
       };
     }
 
+    if (profile !== undefined) {
+      setActiveEnvProfile(workspaceRoot, profile);
+    }
+    const envProfile = getActiveEnvProfile(workspaceRoot);
+
+    let session: DevSession | null = null;
+    let started = '';
+
     try {
       const sstDir = SSTConfig.getSSTDir(workspaceRoot);
       if (!existsSync(sstDir)) {
         mkdirSync(sstDir, { recursive: true });
       }
 
+      // Keep the previous session's log in .sst/logs/ instead of deleting it
       const logPath = SSTConfig.getLogPath(workspaceRoot);
-      if (existsSync(logPath)) {
-        unlinkSync(logPath);
-      }
+      archiveLog(workspaceRoot);
+
+      // sst dev deploys the current sst.config.ts and infra/ when it starts
+      clearPendingInfraChange(workspaceRoot);
 
-      this.logStream = createWriteStream(logPath, { flags: 'a' });
-      const timestamp = new Date().toISOString();
-      this.logStream.write(`\n=== SST Dev Started at ${timestamp} ===\n`);
+      const logStream = new RotatingLogWriter(workspaceRoot, 'Dev');
+      const startedAt = new Date();
+      logStream.write(`\n=== SST Dev Started at ${startedAt.toISOString()} ===\n`);
 
       const mcpServerDir = dirname(fileURLToPath(import.meta.url));
       const startScriptPath = join(mcpServerDir, 'start.ts');
 
-      this.sstProcess = spawn(SSTConfig.NPX_COMMAND, [SSTConfig.TSX_COMMAND, startScriptPath, '--projectRoot', workspaceRoot], {
+      // This server writes the session log, so start.ts must not write it too
+      const startArgs = [startScriptPath, '--projectRoot', workspaceRoot, '--profile', envProfile, '--no-log'];
+      if (maxRestarts !== undefined) startArgs.push('--maxRestarts', String(maxRestarts));
+      if (restartBackoffMs !== undefined) startArgs.push('--restartBackoffMs', String(restartBackoffMs));
+
+      const sstProcess = spawn(SSTConfig.NPX_COMMAND, [SSTConfig.TSX_COMMAND, ...startArgs], {
         cwd: mcpServerDir,
         stdio: ['inherit', 'pipe', 'pipe'],
         env: process.env,
       });
 
-      if (this.sstProcess.stdout) {
-        this.sstProcess.stdout.on('data', (data) => {
-          const output = data.toString();
-          process.stdout.write(output);
-          this.logStream?.write(output);
-        });
-      }
+      const devSession: DevSession = {
+        workspaceRoot,
+        process: sstProcess,
+        logStream,
+        logPath,
+        startedAt,
+        state: 'starting',
+        exitCode: null,
+        phase: new DevPhaseTracker(),
+      };
+      session = devSession;
+      this.devSessions.set(workspaceRoot, devSession);
+
+      // The dev session outlives this tool call, so its output is only streamed as log messages
+      const reporter = this.createOutputReporter(`sst-dev:${workspaceRoot}`);
+
+      // Redacted a line at a time; what is left of a line is passed on when the process closes
+      const stdoutLines = this.redactor.lineBuffer();
+      const stderrLines = this.redactor.lineBuffer();
+      const onStdout = (output: string) => {
+        if (!output) return;
+        process.stdout.write(output);
+        devSession.logStream?.write(stripAnsi(output));
+        devSession.phase.feed(output);
+        reporter.write(output, 'stdout');
+        const infraFiles = parseInfraChangeLine(output);
+        if (infraFiles) this.handleInfraChange(workspaceRoot, infraFiles);
+      };
+      const onStderr = (output: string) => {
+        if (!output) return;
+        process.stderr.write(output);
+        devSession.logStream?.write(stripAnsi(output));
+        devSession.phase.feed(output);
+        reporter.write(output, 'stderr');
+      };
 
-      if (this.sstProcess.stderr) {
-        this.sstProcess.stderr.on('data', (data) => {
-          const output = data.toString();
-          process.stderr.write(output);
-          this.logStream?.write(output);
-        });
-      }
+      sstProcess.stdout?.on('data', (data) => onStdout(stdoutLines.write(data.toString())));
+      sstProcess.stderr?.on('data', (data) => onStderr(stderrLines.write(data.toString())));
 
-      this.sstProcess.on('close', (code) => {
+      sstProcess.on('spawn', () => {
+        if (devSession.state === 'starting') {
+          devSession.state = 'running';
+        }
+      });
+
+      sstProcess.on('close', (code) => {
+        onStdout(stdoutLines.flush());
+        onStderr(stderrLines.flush());
+        reporter.flush();
         const timestamp = new Date().toISOString();
         const message = `\n=== SST Dev Ended at ${timestamp} with code ${code} ===\n`;
-        this.logStream?.write(message);
-        this.logStream?.end();
-        this.logStream = null;
-        this.sstProcess = null;
+        devSession.logStream?.write(message);
+        devSession.logStream?.end();
+        devSession.logStream = null;
+        devSession.exitCode = code;
+        devSession.phase.exit(code);
+        if (devSession.state !== 'error') {
+          devSession.state = 'exited';
+        }
+        // Only drop the entry if it has not been replaced by a newer session
+        if (this.devSessions.get(workspaceRoot) === devSession) {
+          this.devSessions.delete(workspaceRoot);
+        }
       });
 
-      this.sstProcess.on('error', (error) => {
+      sstProcess.on('error', (error) => {
         const timestamp = new Date().toISOString();
         const message = `\n=== SST Dev Error at ${timestamp}: ${error.message} ===\n`;
-        this.logStream?.write(message);
-        console.error('SST Process Error:', error);
+        devSession.logStream?.write(message);
+        devSession.state = 'error';
+        this.logger.error('SST dev process error', { workspaceRoot, error: error.message });
       });
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `SST development process started successfully. Logs are being written to ${logPath}`,
-          },
-        ],
-      };
+      started = `SST development process started successfully for ${workspaceRoot} (env profile: ${envProfile}). Logs are being written to ${logPath}`;
     } catch (error) {
-      if (this.logStream) {
-        this.logStream.end();
-        this.logStream = null;
+      if (session) {
+        session.logStream?.end();
+        session.logStream = null;
+        this.devSessions.delete(workspaceRoot);
       }
-      this.sstProcess = null;
       throw new Error(`Failed to start SST process: ${error instanceof Error ? error.message : String(error)}`);
     }
+
+    if (!wait) {
+      return { content: [{ type: 'text', text: started }] };
+    }
+    // Outside the try: a failed deploy leaves the session running, so it must stay registered
+    return await this.waitForDevReady(session, started, timeoutMs, context.signal);
   }
 
-  private async stopSSTDev({ workspaceRoot }: { workspaceRoot: string }) {
+  /**
+   * Resolve once the session is ready; throw if it fails, exits or the wait is cancelled.
+   * Timing out is not an error: the session keeps starting in the background.
+   */
+  private async waitForDevReady(session: DevSession, started: string, timeoutMs: number, signal?: AbortSignal) {
+    const outcome = await new Promise<'settled' | 'timeout' | 'cancelled'>((resolve) => {
+      const settled = (phase: DevPhase) => phase === 'ready' || phase === 'failed' || phase === 'exited';
+      if (settled(session.phase.snapshot.phase)) return resolve('settled');
+
+      const done = (result: 'settled' | 'timeout' | 'cancelled') => {
+        clearTimeout(timer);
+        unsubscribe();
+        signal?.removeEventListener('abort', onAbort);
+        resolve(result);
+      };
+      const onAbort = () => done('cancelled');
+      const timer = setTimeout(() => done('timeout'), timeoutMs);
+      const unsubscribe = session.phase.onChange(snapshot => {
+        if (settled(snapshot.phase)) done('settled');
+      });
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+    const snapshot = session.phase.snapshot;
+    const elapsed = Math.round((Date.now() - session.startedAt.getTime()) / 1000);
+    if (outcome === 'cancelled') {
+      throw new Error(`Stopped waiting for SST dev (still ${snapshot.phase}; the session keeps running)`);
+    }
+    if (outcome === 'timeout') {
+      return {
+        content: [{ type: 'text', text: `${started}\n\nNot ready after ${elapsed}s; still ${snapshot.phase}${snapshot.line ? ` (${snapshot.line})` : ''}. Check get-sst-status for progress.` }],
+      };
+    }
+    if (snapshot.phase === 'ready') {
+      return { content: [{ type: 'text', text: `${started}\n\nReady after ${elapsed}s.` }] };
+    }
+    if (snapshot.phase === 'exited') {
+      throw new Error(`SST dev ${snapshot.line ?? 'exited'} before it was ready. See ${session.logPath}`);
+    }
+    throw new Error(`SST dev failed after ${elapsed}s; the session is still running and redeploys when files change:\n${snapshot.errors.join('\n')}`);
+  }
+
+  private async stopSSTDev({ workspaceRoot }: { workspaceRoot: string }, context: OperationContext = {}) {
     this.validateWorkspaceRoot(workspaceRoot);
     this.logger.info('Stopping SST dev', { workspaceRoot });
     
+    const session = this.devSessions.get(workspaceRoot);
+    const previousState = session?.state;
+    if (session) {
+      session.state = 'stopping';
+    }
+    // sst dev is still up when the stop script fails or is cancelled
+    const restoreState = () => {
+      if (session && previousState && session.state === 'stopping') {
+        session.state = previousState;
+      }
+    };
+
     try {
       const mcpServerDir = dirname(fileURLToPath(import.meta.url));
       const stopScriptPath = join(mcpServerDir, 'stop.ts');
@@ -711,35 +1737,43 @@ class MCPSSTServer {
           stdio: ['inherit', 'pipe', 'pipe'],
           env: process.env,
         });
+        const abort = this.killOnAbort(stopProcess, context.signal, 'Stop script');
 
         let output = '';
         let errorOutput = '';
+        const stdoutLines = this.redactor.lineBuffer();
+        const stderrLines = this.redactor.lineBuffer();
+        const onStdout = (text: string) => {
+          if (!text) return;
+          output += text;
+          process.stdout.write(text);
+        };
+        const onStderr = (text: string) => {
+          if (!text) return;
+          errorOutput += text;
+          process.stderr.write(text);
+        };
 
-        if (stopProcess.stdout) {
-          stopProcess.stdout.on('data', (data) => {
-            const text = data.toString();
-            output += text;
-            process.stdout.write(text);
-          });
-        }
-
-        if (stopProcess.stderr) {
-          stopProcess.stderr.on('data', (data) => {
-            const text = data.toString();
-            errorOutput += text;
-            process.stderr.write(text);
-          });
-        }
+        stopProcess.stdout?.on('data', (data) => onStdout(stdoutLines.write(data.toString())));
+        stopProcess.stderr?.on('data', (data) => onStderr(stderrLines.write(data.toString())));
 
         stopProcess.on('close', (code) => {
-          // Clear internal reference since process is stopped
-          this.sstProcess = null;
-          if (this.logStream) {
-            this.logStream.end();
-            this.logStream = null;
+          onStdout(stdoutLines.flush());
+          onStderr(stderrLines.flush());
+          abort.dispose();
+          if (abort.killedPids) {
+            restoreState();
+            reject(new Error(`Stop script was cancelled (killed PIDs: ${abort.killedPids.join(', ') || 'none'})`));
+            return;
           }
 
           if (code === 0) {
+            // Clear only this workspace's session since its process is stopped
+            if (session && this.devSessions.get(workspaceRoot) === session) {
+              session.logStream?.end();
+              session.logStream = null;
+              this.devSessions.delete(workspaceRoot);
+            }
             resolve({
               content: [
                 {
@@ -749,11 +1783,14 @@ class MCPSSTServer {
               ],
             });
           } else {
+            restoreState();
             reject(new Error(`Stop script failed with code ${code}: ${errorOutput}`));
           }
         });
 
         stopProcess.on('error', (error) => {
+          abort.dispose();
+          restoreState();
           reject(new Error(`Failed to run stop script: ${error.message}`));
         });
       });
@@ -762,122 +1799,136 @@ class MCPSSTServer {
     }
   }
 
-  private async sstDeploy({ workspaceRoot, stage = SSTConfig.DEFAULT_STAGE }: { workspaceRoot: string; stage?: string }) {
+  private async sstDeploy(
+    { workspaceRoot, stage = SSTConfig.DEFAULT_STAGE }: { workspaceRoot: string; stage?: string },
+    context: OperationContext = {},
+    tool: DeploymentTool = 'sst-deploy',
+    header?: string
+  ) {
+    const { reporter, job } = context;
     this.validateWorkspaceRoot(workspaceRoot);
     this.logger.info('Starting SST deploy', { workspaceRoot, stage });
+    await this.loadStageSecrets(workspaceRoot, stage);
     
     const sstDir = SSTConfig.getSSTDir(workspaceRoot);
     if (!existsSync(sstDir)) {
       mkdirSync(sstDir, { recursive: true });
     }
 
-    const logPath = SSTConfig.getLogPath(workspaceRoot);
-    const logStream = createWriteStream(logPath, { flags: 'a' });
-    const timestamp = new Date().toISOString();
-    logStream.write(`\n=== SST Deploy (--stage ${stage}) Started at ${timestamp} ===\n`);
+    pruneDeploymentLogs(workspaceRoot);
+    const deployment = await startDeploymentRecord(workspaceRoot, tool, stage);
+    const runLog = createWriteStream(deployment.outputPath, { flags: 'a' });
+    if (header) runLog.write(header);
+    let finished = false;
+    const finish = (code: number | null, error?: string) => {
+      if (finished) return;
+      finished = true;
+      runLog.end();
+      finishDeploymentRecord(workspaceRoot, deployment, code, error);
+    };
+
+    const controller = this.createAbortController(context.signal);
 
     const deployPromise = new Promise<{ content: Array<{ type: string; text: string }> }>((resolve, reject) => {
-      const deployProcess = spawn(SSTConfig.NPX_COMMAND, [SSTConfig.SST_COMMAND, ...SSTConfig.SST_DEPLOY_ARGS(stage)], {
+      const sst = resolveSSTCommand(workspaceRoot);
+      const deployProcess = spawn(sst.command, [...sst.args, ...SSTConfig.SST_DEPLOY_ARGS(stage)], {
         cwd: workspaceRoot,
         stdio: ['inherit', 'pipe', 'pipe'],
         env: process.env,
       });
-      
-      // Store cancel handler
-      const cancelKey = `deploy-${workspaceRoot}-${stage}`;
-      this.cancelHandlers.set(cancelKey, () => {
-        deployProcess.kill('SIGTERM');
-        this.logger.info('Deploy cancelled', { workspaceRoot, stage });
-      });
+      const abort = this.killOnAbort(deployProcess, controller.signal, 'SST deploy');
 
       let output = '';
       let errorOutput = '';
+      // Redacted a line at a time; what is left of a line is passed on when the process closes
+      const stdoutLines = this.redactor.lineBuffer();
+      const stderrLines = this.redactor.lineBuffer();
+      const onStdout = (text: string) => {
+        if (!text) return;
+        output += text;
+        process.stdout.write(text);
+        runLog.write(text);
+        reporter?.write(text, 'stdout');
+      };
+      const onStderr = (text: string) => {
+        if (!text) return;
+        errorOutput += text;
+        process.stderr.write(text);
+        runLog.write(text);
+        reporter?.write(text, 'stderr');
+      };
 
-      if (deployProcess.stdout) {
-        deployProcess.stdout.on('data', (data) => {
-          const text = data.toString();
-          output += text;
-          process.stdout.write(text);
-          logStream.write(text);
-        });
-      }
-
-      if (deployProcess.stderr) {
-        deployProcess.stderr.on('data', (data) => {
-          const text = data.toString();
-          errorOutput += text;
-          process.stderr.write(text);
-          logStream.write(text);
-        });
-      }
+      deployProcess.stdout?.on('data', (data) => onStdout(stdoutLines.write(data.toString())));
+      deployProcess.stderr?.on('data', (data) => onStderr(stderrLines.write(data.toString())));
 
       deployProcess.on('close', (code) => {
-        const cancelKey = `deploy-${workspaceRoot}-${stage}`;
-        this.cancelHandlers.delete(cancelKey);
-        
-        const endTimestamp = new Date().toISOString();
-        logStream.write(`\n=== SST Deploy Ended at ${endTimestamp} with code ${code} ===\n`);
-        logStream.end();
+        onStdout(stdoutLines.flush());
+        onStderr(stderrLines.flush());
+        abort.dispose();
+        reporter?.flush();
+
+        if (abort.killedPids) {
+          const message = `SST deploy --stage ${stage} was cancelled (deployment ${deployment.id}, killed PIDs: ${abort.killedPids.join(', ') || 'none'})`;
+          finish(code, 'cancelled');
+          reject(new Error(`${message}\n${output}`));
+          return;
+        }
+        finish(code);
 
         if (code === 0) {
-          this.logger.info('Deploy completed successfully', { workspaceRoot, stage });
+          this.logger.info('Deploy completed successfully', { workspaceRoot, stage, deploymentId: deployment.id });
+          try {
+            saveStageOutputs(workspaceRoot, stage);
+          } catch (error) {
+            this.logger.warn('Failed to save stage outputs', { workspaceRoot, stage, error: error instanceof Error ? error.message : String(error) });
+          }
           resolve({
             content: [
               {
                 type: 'text',
-                text: `SST deploy --stage ${stage} completed successfully.\n\n${output.trim()}`,
+                text: `SST deploy --stage ${stage} completed successfully (deployment ${deployment.id}).\n\n${output.trim()}`,
               },
             ],
           });
         } else {
-          this.logger.error('Deploy failed', { workspaceRoot, stage, code, errorOutput });
-          reject(new Error(`SST deploy failed with code ${code}:\n${errorOutput}\n${output}`));
+          this.logger.error('Deploy failed', { workspaceRoot, stage, code, errorOutput, deploymentId: deployment.id });
+          reject(new Error(`SST deploy failed with code ${code} (deployment ${deployment.id}):\n${errorOutput}\n${output}`));
         }
       });
 
       deployProcess.on('error', (error) => {
-        const cancelKey = `deploy-${workspaceRoot}-${stage}`;
-        this.cancelHandlers.delete(cancelKey);
-        logStream.end();
+        abort.dispose();
+        finish(null, error.message);
         this.logger.error('Deploy process error', { workspaceRoot, stage, error: error.message });
         reject(new Error(`Failed to run sst deploy: ${error.message}`));
       });
     });
     
-    // Wrap with timeout (5 minutes for deploy)
-    const cancelKey = `deploy-${workspaceRoot}-${stage}`;
+    // Background jobs are not bound by the tool-call timeout; cancel-sst-job stops them
+    if (job) {
+      return await deployPromise;
+    }
+
     return await this.withTimeout(
       deployPromise,
-      300000,
+      getServerConfig(workspaceRoot).deployTimeoutMs,
       'SST deployment',
-      () => {
-        const handler = this.cancelHandlers.get(cancelKey);
-        if (handler) handler();
-      }
+      () => controller.abort()
     );
   }
 
-  private async sstRestartForInfra({ workspaceRoot, stage = SSTConfig.DEFAULT_STAGE }: { workspaceRoot: string; stage?: string }) {
+  private async sstRestartForInfra({ workspaceRoot, stage = SSTConfig.DEFAULT_STAGE }: { workspaceRoot: string; stage?: string }, context: OperationContext = {}) {
     this.validateWorkspaceRoot(workspaceRoot);
     this.logger.info('Starting infra restart workflow', { workspaceRoot, stage });
-    
-    const sstDir = SSTConfig.getSSTDir(workspaceRoot);
-    if (!existsSync(sstDir)) {
-      mkdirSync(sstDir, { recursive: true });
-    }
-
-    const logPath = SSTConfig.getLogPath(workspaceRoot);
-    const logStream = createWriteStream(logPath, { flags: 'a' });
-    const timestamp = new Date().toISOString();
-    logStream.write(`\n=== SST Infra Restart Workflow Started at ${timestamp} ===\n`);
-    logStream.end();
+    // Recorded in the deploy step's run log and ledger entry; sst-mcp.log belongs to the dev supervisor
+    const startedAt = new Date().toISOString();
 
     const steps: string[] = [];
 
     // Step 1: Stop sst dev
     try {
       steps.push('Step 1: Stopping sst dev...');
-      const stopResult = await this.stopSSTDev({ workspaceRoot });
+      const stopResult = await this.stopSSTDev({ workspaceRoot }, context);
       const stopText = stopResult.content[0]?.text || 'stopped';
       steps.push(`  ✓ ${stopText}`);
     } catch (error) {
@@ -892,13 +1943,22 @@ class MCPSSTServer {
 
     // Brief pause to let processes clean up
     await new Promise(resolve => setTimeout(resolve, 2000));
+    if (context.signal?.aborted) {
+      throw new Error(`Infrastructure restart workflow cancelled before deploy.\n\n${steps.join('\n')}`);
+    }
 
     // Step 2: Deploy infrastructure
     try {
       steps.push(`Step 2: Deploying infrastructure (--stage ${stage})...`);
-      const deployResult = await this.sstDeploy({ workspaceRoot, stage });
+      const deployResult = await this.sstDeploy(
+        { workspaceRoot, stage },
+        context,
+        'sst-restart-for-infra',
+        `=== SST Infra Restart Workflow Started at ${startedAt} ===\n`
+      );
       const deployText = deployResult.content[0]?.text || 'deployed';
       steps.push(`  ✓ ${deployText}`);
+      clearPendingInfraChange(workspaceRoot);
     } catch (error) {
       const msg = error instanceof Error ? error.message : String(error);
       steps.push(`  ✗ Deploy failed: ${msg}`);
@@ -914,6 +1974,9 @@ class MCPSSTServer {
 
     // Brief pause before restarting dev
     await new Promise(resolve => setTimeout(resolve, 2000));
+    if (context.signal?.aborted) {
+      throw new Error(`Infrastructure restart workflow cancelled after deploy; sst dev was not restarted.\n\n${steps.join('\n')}`);
+    }
 
     // Step 3: Restart sst dev
     try {
@@ -944,13 +2007,129 @@ class MCPSSTServer {
     };
   }
 
+  private describeDevSession(session: DevSession) {
+    const uptime = Math.floor((Date.now() - session.startedAt.getTime()) / 1000);
+    return {
+      workspaceRoot: session.workspaceRoot,
+      pid: session.process.pid ?? null,
+      state: session.state,
+      startedAt: session.startedAt.toISOString(),
+      uptime: `${Math.floor(uptime / 60)}m ${uptime % 60}s`,
+      exitCode: session.exitCode,
+      logPath: session.logPath,
+      phase: session.phase.snapshot,
+    };
+  }
+
+  /**
+   * Restart state recorded by the start.ts supervisor, if it ever ran
+   */
+  private describeSupervisor(workspaceRoot: string) {
+    const state = readDevState(workspaceRoot);
+    if (!state) return null;
+    return {
+      state: state.state,
+      restartCount: state.restartCount,
+      consecutiveFailures: state.consecutiveFailures,
+      lastExitCode: state.lastExit?.code ?? null,
+      lastExit: state.lastExit,
+      nextRestartAt: state.nextRestartAt,
+      childPid: state.childPid,
+      policy: state.policy,
+    };
+  }
+
+  /**
+   * Infra watch mode and any sst.config.ts / infra/ changes not yet deployed
+   */
+  private describeInfraChanges(workspaceRoot: string) {
+    const { settings, error } = this.readInfraWatchSettings(workspaceRoot);
+    const pending = readPendingInfraChange(workspaceRoot);
+    return {
+      mode: settings.mode,
+      stage: settings.stage ?? SSTConfig.DEFAULT_STAGE,
+      pendingChange: pending !== null,
+      pending,
+      ...(error ? { settingsError: error } : {}),
+    };
+  }
+
+  // An invalid settings file falls back to the defaults rather than breaking status and dev output handling
+  private readInfraWatchSettings(workspaceRoot: string): { settings: InfraWatchSettings; error?: string } {
+    try {
+      return { settings: loadInfraWatchSettings(workspaceRoot) };
+    } catch (error) {
+      return { settings: { ...DEFAULT_INFRA_WATCH }, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * React to an infra change reported by the start.ts watcher: notify the client and,
+   * in redeploy mode, run sst-restart-for-infra as a background job
+   */
+  private handleInfraChange(workspaceRoot: string, files: string[]) {
+    const { settings, error } = this.readInfraWatchSettings(workspaceRoot);
+    if (error) {
+      this.logger.warn('Invalid infra watch settings, using defaults', { workspaceRoot, error });
+    }
+    if (settings.mode === 'off') return;
+
+    const stage = settings.stage ?? SSTConfig.DEFAULT_STAGE;
+    let jobId: string | null = null;
+    let next = 'Run sst-restart-for-infra to deploy it.';
+
+    if (settings.mode === 'redeploy') {
+      const blocker = this.findRedeployBlocker(workspaceRoot, stage);
+      if (blocker) {
+        next = `Not redeploying automatically: ${blocker}.`;
+      } else {
+        jobId = this.launchJob('sst-restart-for-infra', { workspaceRoot, stage }).id;
+        next = `Running sst-restart-for-infra on stage "${stage}" as job ${jobId}.`;
+      }
+    }
+
+    const message = `Infrastructure changed (${files.join(', ')}). ${next}`;
+    this.logger.info('Infra change detected', { workspaceRoot, files, mode: settings.mode, stage, jobId });
+    this.server.sendLoggingMessage({
+      level: 'warning',
+      logger: 'sst-infra',
+      data: { event: 'infra-change', workspaceRoot, files, pending: readPendingInfraChange(workspaceRoot), mode: settings.mode, stage, jobId, message },
+    }).catch(() => {
+      // The client may not have enabled logging; the pending flag is still in get-sst-status
+    });
+  }
+
+  /**
+   * Why an automatic redeploy must not run now, or null if it may
+   */
+  private findRedeployBlocker(workspaceRoot: string, stage: string): string | null {
+    const busy = this.jobs.running().find(job =>
+      job.workspaceRoot === workspaceRoot && ['sst-deploy', 'sst-restart-for-infra', 'remove-sst-stage'].includes(job.tool)
+    );
+    if (busy) return `${busy.tool} is already running as job ${busy.id}`;
+
+    try {
+      const decision = checkPolicy(loadPolicy(workspaceRoot), 'sst-restart-for-infra', stage);
+      if (decision?.requireConfirmation) return `stage "${stage}" is protected and needs a confirmation`;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+    return null;
+  }
+
   private async getSSTStatus({ workspaceRoot }: { workspaceRoot: string }) {
     const pidFilePath = SSTConfig.getPIDPath(workspaceRoot);
     const logPath = SSTConfig.getLogPath(workspaceRoot);
+    const devSession = this.devSessions.get(workspaceRoot);
+    const session = devSession ? this.describeDevSession(devSession) : null;
+    const envProfile = getActiveEnvProfile(workspaceRoot);
+    const supervisor = this.describeSupervisor(workspaceRoot);
+    const phase = devSession?.phase.snapshot.phase ?? null;
+    const infra = this.describeInfraChanges(workspaceRoot);
 
     if (!existsSync(pidFilePath)) {
       return {
-        content: [{ type: 'text', text: JSON.stringify({ running: false, message: 'SST dev is not running' }, null, 2) }],
+        content: [{ type: 'text', text: JSON.stringify({ running: false, workspaceRoot, envProfile, phase, supervisor, infra, message: 'SST dev is not running', session }, null, 2) }],
       };
     }
 
@@ -960,7 +2139,7 @@ class MCPSSTServer {
 
       if (isNaN(pid)) {
         unlinkSync(pidFilePath);
-        return { content: [{ type: 'text', text: JSON.stringify({ running: false, message: 'Invalid PID file' }, null, 2) }] };
+        return { content: [{ type: 'text', text: JSON.stringify({ running: false, workspaceRoot, envProfile, phase, supervisor, infra, message: 'Invalid PID file', session }, null, 2) }] };
       }
 
       try {
@@ -984,10 +2163,16 @@ class MCPSSTServer {
 
         const status = {
           running: true,
+          workspaceRoot,
+          envProfile,
+          phase,
+          supervisor,
+          infra,
           pid,
           uptime: uptimeStr,
           lastLog,
           logPath,
+          session,
         };
 
         return { content: [{ type: 'text', text: JSON.stringify(status, null, 2) }] };
@@ -995,11 +2180,11 @@ class MCPSSTServer {
         if ((error as NodeJS.ErrnoException).code === 'ESRCH') {
           unlinkSync(pidFilePath);
         }
-        return { content: [{ type: 'text', text: JSON.stringify({ running: false, message: 'Process not found' }, null, 2) }] };
+        return { content: [{ type: 'text', text: JSON.stringify({ running: false, workspaceRoot, envProfile, phase, supervisor, infra, message: 'Process not found', session }, null, 2) }] };
       }
     } catch (error) {
       try { unlinkSync(pidFilePath); } catch { /* ignore */ }
-      return { content: [{ type: 'text', text: JSON.stringify({ running: false, message: 'Error checking status' }, null, 2) }] };
+      return { content: [{ type: 'text', text: JSON.stringify({ running: false, workspaceRoot, envProfile, phase, supervisor, infra, message: 'Error checking status', session }, null, 2) }] };
     }
   }
 
@@ -1013,6 +2198,7 @@ class MCPSSTServer {
       const workspaceLogPath = SSTConfig.getLogPath(workspaceRoot);
       const workspacePidPath = SSTConfig.getPIDPath(workspaceRoot);
       const sstDir = SSTConfig.getSSTDir(workspaceRoot);
+      const sst = resolveSSTCommand(workspaceRoot);
 
       const debugInfo = [
         `=== MCP Server Debug Information ===`,
@@ -1036,6 +2222,12 @@ class MCPSSTServer {
         `PID file exists: ${existsSync(workspacePidPath)}`,
         `Workspace .sst dir exists: ${existsSync(sstDir)}`,
         ``,
+        `=== SST Command ===`,
+        `Package manager: ${sst.packageManager} (${sst.packageManagerFile ? `${sst.packageManagerSource}: ${sst.packageManagerFile}` : 'default, no lockfile or packageManager field found'})`,
+        `sst binary: ${sst.binaryPath ?? 'not installed locally'}`,
+        `Command: ${formatSSTCommand(workspaceRoot, sst)}`,
+        `Detected at: ${sst.detectedAt}`,
+        ``,
         `=== Environment ===`,
         `Node.js version: ${process.version}`,
         `Platform: ${process.platform}`,
@@ -1050,13 +2242,21 @@ class MCPSSTServer {
     }
   }
 
-  private async getSSTLogs({ workspaceRoot, lines = SSTConfig.DEFAULT_LOG_LINES }: { workspaceRoot: string; lines?: number }) {
-    const logPath = SSTConfig.getLogPath(workspaceRoot);
+  private async getSSTLogs(
+    { workspaceRoot, lines = getServerConfig(workspaceRoot).defaultLogLines, logId, ...query }: { workspaceRoot: string; lines?: number; logId?: string } & Partial<LogQuery>
+  ) {
+    const logPath = resolveLogFile(workspaceRoot, logId);
     
     if (!existsSync(logPath)) {
       return { content: [{ type: 'text', text: 'No log file found. SST has not been started yet.' }] };
     }
 
+    const isQuery = [query.since, query.until, query.include, query.exclude, query.name, query.severity, query.session, query.cursor]
+      .some(value => value !== undefined && value !== '');
+    if (isQuery) {
+      return this.querySSTLogs(logPath, { ...query, limit: lines });
+    }
+
     try {
       const content = readFileSync(logPath, 'utf8');
       const allLines = content.split('\n');
@@ -1068,211 +2268,509 @@ class MCPSSTServer {
     }
   }
 
-  private async getSSTErrors({ workspaceRoot }: { workspaceRoot: string }) {
-    const logPath = SSTConfig.getLogPath(workspaceRoot);
+  private async querySSTLogs(logPath: string, query: LogQuery) {
+    if (query.severity && !LOG_SEVERITIES.includes(query.severity)) {
+      throw new Error(`severity must be one of: ${LOG_SEVERITIES.join(', ')}`);
+    }
+    if (!Number.isInteger(query.limit) || query.limit <= 0) {
+      throw new Error('lines must be a positive integer');
+    }
+
+    const parsed = parseLog(readFileSync(logPath, 'utf8'));
+    const result = queryLog(parsed, query);
+
+    const response = {
+      logPath,
+      totalLines: result.totalLines,
+      sessionCount: result.sessionCount,
+      session: result.session,
+      returned: result.lines.length,
+      lines: result.lines,
+      nextCursor: result.nextCursor,
+    };
+
+    return { content: [{ type: 'text', text: JSON.stringify(response, null, 2) }] };
+  }
+
+  private async getSSTErrors(
+    { workspaceRoot, category, session, limit = 20, logId }: { workspaceRoot: string; category?: ErrorCategory; session?: number; limit?: number; logId?: string }
+  ) {
+    const logPath = resolveLogFile(workspaceRoot, logId);
     
     if (!existsSync(logPath)) {
       return { content: [{ type: 'text', text: 'No log file found.' }] };
     }
 
+    if (category && !ERROR_CATEGORIES.includes(category)) {
+      throw new Error(`category must be one of: ${ERROR_CATEGORIES.join(', ')}`);
+    }
+
     try {
-      const content = readFileSync(logPath, 'utf8');
-      const lines = content.split('\n');
-      const errorPatterns = [
-        /error:/i,
-        /exception/i,
-        /failed/i,
-        /cannot/i,
-        /unable to/i,
-        /\[ERROR\]/i,
-        /❌/,
-        /✗/,
-      ];
-
-      const errors = lines.filter(line => 
-        errorPatterns.some(pattern => pattern.test(line)) && line.trim().length > 0
-      );
+      const parsed = parseLog(readFileSync(logPath, 'utf8'));
 
-      if (errors.length === 0) {
+      let lines = parsed.lines;
+      if (session !== undefined && session !== 0) {
+        const selected = parsed.sessions[session > 0 ? session - 1 : parsed.sessions.length + session];
+        if (!selected) {
+          throw new Error(`Session ${session} not found (log has ${parsed.sessions.length} session(s))`);
+        }
+        lines = lines.filter(line => line.session === selected.index);
+      }
+
+      const clusters = clusterErrors(lines).filter(cluster => !category || cluster.category === category);
+
+      if (clusters.length === 0) {
         return { content: [{ type: 'text', text: 'No errors found in logs.' }] };
       }
 
-      return { content: [{ type: 'text', text: errors.join('\n') }] };
+      const byCategory: Partial<Record<ErrorCategory, number>> = {};
+      for (const cluster of clusters) {
+        byCategory[cluster.category] = (byCategory[cluster.category] ?? 0) + cluster.count;
+      }
+
+      const result = {
+        logPath,
+        totalOccurrences: clusters.reduce((sum, cluster) => sum + cluster.count, 0),
+        uniqueErrors: clusters.length,
+        byCategory,
+        errors: clusters.slice(0, limit),
+      };
+
+      return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
     } catch (error) {
       throw new Error(`Failed to parse errors: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
-  private async listSSTResources({ workspaceRoot, stage = SSTConfig.DEFAULT_STAGE }: { workspaceRoot: string; stage?: string }) {
-    const metadataPath = SSTConfig.getOutputsPath(workspaceRoot);
-    
-    if (!existsSync(metadataPath)) {
-      return { content: [{ type: 'text', text: `No outputs.json found. Deploy SST first with stage "${stage}".` }] };
+  private async listSSTLogSessions({ workspaceRoot, kind, limit = 20 }: { workspaceRoot: string; kind?: LogFileKind; limit?: number }) {
+    this.validateWorkspaceRoot(workspaceRoot);
+
+    const logs = listLogFiles(workspaceRoot).filter(log => !kind || log.kind === kind);
+    if (logs.length === 0) {
+      return { content: [{ type: 'text', text: 'No logs found. SST has not been started or deployed yet.' }] };
+    }
+
+    const result = {
+      total: logs.length,
+      logs: logs.slice(0, limit),
+      message: 'Pass an id as logId to get-sst-logs or get-sst-errors to read that log.',
+    };
+
+    return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+  }
+
+  private async listSSTResources({ workspaceRoot, stage, compareTo }: { workspaceRoot: string; stage?: string; compareTo?: string }) {
+    this.validateWorkspaceRoot(workspaceRoot);
+
+    const inventory = this.readInventory(workspaceRoot, stage ?? null);
+
+    if (compareTo !== undefined) {
+      const other = this.readInventory(workspaceRoot, compareTo);
+      return { content: [{ type: 'text', text: JSON.stringify(diffInventories(inventory, other), null, 2) }] };
+    }
+
+    return { content: [{ type: 'text', text: JSON.stringify(inventory, null, 2) }] };
+  }
+
+  // A stage's saved outputs as an inventory; null stage means the last deploy's outputs.json
+  private readInventory(workspaceRoot: string, stage: string | null) {
+    const saved = readStageOutputs(workspaceRoot, stage);
+    if (!saved) {
+      const stages = listOutputStages(workspaceRoot);
+      const available = stages.length > 0 ? ` Stages with saved outputs: ${stages.join(', ')}.` : '';
+      throw new Error(stage === null
+        ? `No outputs.json found. Deploy SST first.${available}`
+        : `No saved outputs for stage "${stage}". Deploy the stage first.${available}`);
+    }
+
+    return buildInventory(saved.outputs, stage, statSync(saved.path).mtime);
+  }
+
+  private async listSSTStages({ workspaceRoot, allApps, region, profile }: { workspaceRoot: string; allApps?: boolean; region?: string; profile?: string }) {
+    this.validateWorkspaceRoot(workspaceRoot);
+
+    const app = allApps ? null : readAppName(SSTConfig.getConfigPath(workspaceRoot));
+    const source = this.parameterSource ?? new SsmParameterSource({ region, profile });
+    this.logger.info('Discovering SST stages', { workspaceRoot, app, region, profile });
+
+    try {
+      const stages = await discoverStages(source, app ?? undefined);
+      return { content: [{ type: 'text', text: JSON.stringify({ app, stages }, null, 2) }] };
+    } catch (error) {
+      if (!(error instanceof StageDiscoveryError)) throw error;
+
+      this.logger.warn('Stage discovery failed', { workspaceRoot, kind: error.kind, error: error.message });
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ app, stages: [], error: error.kind, message: error.message }, null, 2) }],
+        // No stages is an answer, not a failure
+        isError: error.kind !== 'empty',
+      };
+    }
+  }
+
+  private async removeSSTStage({ workspaceRoot, stage }: { workspaceRoot: string; stage: string }, context: OperationContext = {}) {
+    const { reporter } = context;
+    this.validateWorkspaceRoot(workspaceRoot);
+    this.logger.info('Removing SST stage', { workspaceRoot, stage });
+    await this.loadStageSecrets(workspaceRoot, stage);
+
+    pruneDeploymentLogs(workspaceRoot);
+    const deployment = await startDeploymentRecord(workspaceRoot, 'remove-sst-stage', stage);
+    const runLog = createWriteStream(deployment.outputPath, { flags: 'a' });
+    let finished = false;
+    const finish = (code: number | null, error?: string) => {
+      if (finished) return;
+      finished = true;
+      runLog.end();
+      finishDeploymentRecord(workspaceRoot, deployment, code, error);
+    };
+
+    return new Promise<{ content: Array<{ type: string; text: string }> }>((resolve, reject) => {
+      const sst = resolveSSTCommand(workspaceRoot);
+      const removeProcess = spawn(sst.command, [...sst.args, ...SSTConfig.SST_REMOVE_ARGS(stage)], {
+        cwd: workspaceRoot,
+        stdio: ['inherit', 'pipe', 'pipe'],
+        env: process.env,
+      });
+
+      const abort = this.killOnAbort(removeProcess, context.signal, 'SST remove');
+
+      let output = '';
+      let errorOutput = '';
+      // Redacted a line at a time; what is left of a line is passed on when the process closes
+      const stdoutLines = this.redactor.lineBuffer();
+      const stderrLines = this.redactor.lineBuffer();
+      const onStdout = (text: string) => {
+        if (!text) return;
+        output += text;
+        process.stdout.write(text);
+        runLog.write(text);
+        reporter?.write(text, 'stdout');
+      };
+      const onStderr = (text: string) => {
+        if (!text) return;
+        errorOutput += text;
+        process.stderr.write(text);
+        runLog.write(text);
+        reporter?.write(text, 'stderr');
+      };
+
+      removeProcess.stdout?.on('data', (data) => onStdout(stdoutLines.write(data.toString())));
+      removeProcess.stderr?.on('data', (data) => onStderr(stderrLines.write(data.toString())));
+
+      removeProcess.on('close', (code) => {
+        onStdout(stdoutLines.flush());
+        onStderr(stderrLines.flush());
+        abort.dispose();
+        reporter?.flush();
+        if (abort.killedPids) {
+          finish(code, 'cancelled');
+          reject(new Error(`Removal of stage "${stage}" was cancelled (deployment ${deployment.id}, killed PIDs: ${abort.killedPids.join(', ') || 'none'}); the stage may be partially removed`));
+          return;
+        }
+        finish(code);
+        if (code === 0) {
+          resolve({ content: [{ type: 'text', text: `Stage "${stage}" removed successfully (deployment ${deployment.id}).\n\n${output}` }] });
+        } else {
+          reject(new Error(`Failed to remove stage "${stage}" (code ${code}, deployment ${deployment.id}):\n${errorOutput}`));
+        }
+      });
+
+      removeProcess.on('error', (error) => {
+        abort.dispose();
+        finish(null, error.message);
+        reject(new Error(`Failed to run sst remove: ${error.message}`));
+      });
+    });
+  }
+
+  private async listSSTDeployments({ workspaceRoot, stage, tool, status, limit = 20 }: { workspaceRoot: string; stage?: string; tool?: DeploymentTool; status?: DeploymentStatus; limit?: number }) {
+    this.validateWorkspaceRoot(workspaceRoot);
+
+    const records = readDeploymentRecords(workspaceRoot).filter(record =>
+      (!stage || record.stage === stage) &&
+      (!tool || record.tool === tool) &&
+      (!status || record.status === status)
+    );
+
+    if (records.length === 0) {
+      return { content: [{ type: 'text', text: 'No deployments recorded yet.' }] };
+    }
+
+    const result = {
+      total: records.length,
+      deployments: records.slice(0, limit),
+    };
+
+    return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+  }
+
+  private async getSSTDeployment({ workspaceRoot, id, lines = getServerConfig(workspaceRoot).defaultLogLines }: { workspaceRoot: string; id: string; lines?: number }) {
+    this.validateWorkspaceRoot(workspaceRoot);
+
+    const record: DeploymentRecord | undefined = readDeploymentRecords(workspaceRoot).find(r => r.id === id);
+    if (!record) {
+      throw new Error(`Deployment not found: ${id}`);
+    }
+
+    let output = 'No output captured for this run.';
+    if (existsSync(record.outputPath)) {
+      output = readFileSync(record.outputPath, 'utf8').split('\n').slice(-lines).join('\n').trim() || output;
+    }
+
+    return {
+      content: [
+        { type: 'text', text: JSON.stringify(record, null, 2) },
+        { type: 'text', text: output },
+      ],
+    };
+  }
+
+  private async getSSTEnv({ workspaceRoot, profile }: { workspaceRoot: string; profile?: string }) {
+    const envProfile = this.resolveEnvProfile(workspaceRoot, profile);
+    const envPath = SSTConfig.getEnvPath(workspaceRoot, envProfile);
+
+    if (!existsSync(envPath)) {
+      return { content: [{ type: 'text', text: JSON.stringify({ profile: envProfile, path: envPath, exists: false, variables: [], issues: [] }, null, 2) }] };
     }
 
+    let content: string;
     try {
-      const metadata = JSON.parse(readFileSync(metadataPath, 'utf8'));
-      const formatted = JSON.stringify(metadata, null, 2);
-      
-      return { content: [{ type: 'text', text: `SST Resources (stage: ${stage}):\n\n${formatted}` }] };
+      content = readFileSync(envPath, 'utf8');
     } catch (error) {
-      throw new Error(`Failed to read resources: ${error instanceof Error ? error.message : String(error)}`);
+      throw new Error(`Failed to read env.sh: ${error instanceof Error ? error.message : String(error)}`);
     }
+
+    const parsed = parseEnv(content);
+    const variables = parsed.entries.map(entry => {
+      const masked = isSecretEnv(entry.key, entry.value);
+      return {
+        key: entry.key,
+        value: masked ? maskEnvValue(entry.value) : entry.value,
+        masked,
+        exported: entry.exported,
+        line: entry.line,
+      };
+    });
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify({ profile: envProfile, path: envPath, exists: true, variables, issues: parsed.issues }, null, 2) }],
+    };
   }
 
-  private async listSSTStages({ workspaceRoot }: { workspaceRoot: string }) {
-    try {
-      const result = execSync('npx sst shell -- aws ssm get-parameters-by-path --path /sst/ --query "Parameters[*].Name" 2>/dev/null || echo "[]"', {
-        cwd: workspaceRoot,
-        encoding: 'utf8',
-      });
+  private async setSSTEnv(
+    { workspaceRoot, variables = {}, unset = [], profile }: { workspaceRoot: string; variables?: Record<string, string>; unset?: string[]; profile?: string }
+  ) {
+    const envProfile = this.resolveEnvProfile(workspaceRoot, profile);
+    const envPath = SSTConfig.getEnvPath(workspaceRoot, envProfile);
+    if (envProfile !== SSTConfig.DEFAULT_ENV_PROFILE && !existsSync(envPath)) {
+      throw new Error(`Env profile "${envProfile}" not found (${envPath}). Create it with create-sst-env-profile.`);
+    }
 
-      const stages = new Set<string>();
-      const lines = result.split('\n');
-      
-      for (const line of lines) {
-        const match = line.match(/\/sst\/([^\/]+)\//);
-        if (match) stages.add(match[1]);
-      }
+    if (Object.keys(variables).length === 0 && unset.length === 0) {
+      throw new Error('Nothing to change: pass variables and/or unset');
+    }
 
-      if (stages.size === 0) {
-        return { content: [{ type: 'text', text: 'No stages found or unable to query AWS.' }] };
-      }
+    const content = existsSync(envPath) ? readFileSync(envPath, 'utf8') : '';
+    const update = updateEnv(content, { set: variables, unset });
 
-      return { content: [{ type: 'text', text: `Deployed stages:\n${Array.from(stages).map(s => `  - ${s}`).join('\n')}` }] };
+    try {
+      writeFileSync(envPath, update.content, 'utf8');
     } catch (error) {
-      return { content: [{ type: 'text', text: 'Unable to list stages. Ensure AWS credentials are configured.' }] };
+      throw new Error(`Failed to update env.sh: ${error instanceof Error ? error.message : String(error)}`);
     }
+
+    const summary = [
+      update.added.length > 0 ? `Added: ${update.added.join(', ')}` : null,
+      update.updated.length > 0 ? `Updated: ${update.updated.join(', ')}` : null,
+      update.removed.length > 0 ? `Removed: ${update.removed.join(', ')}` : null,
+      update.missing.length > 0 ? `Not set, nothing to remove: ${update.missing.join(', ')}` : null,
+    ].filter(Boolean).join('. ');
+
+    const restart = envProfile === getActiveEnvProfile(workspaceRoot)
+      ? 'SST dev will auto-restart if running.'
+      : `"${envProfile}" is not the active profile, so a running SST dev is not affected.`;
+    return { content: [{ type: 'text', text: `${summary}. Environment variables updated in ${basename(envPath)}. ${restart}` }] };
   }
 
-  private async removeSSTStage({ workspaceRoot, stage }: { workspaceRoot: string; stage: string }) {
-    return new Promise<{ content: Array<{ type: string; text: string }> }>((resolve, reject) => {
-      const removeProcess = spawn(SSTConfig.NPX_COMMAND, [SSTConfig.SST_COMMAND, ...SSTConfig.SST_REMOVE_ARGS(stage)], {
-        cwd: workspaceRoot,
-        stdio: ['inherit', 'pipe', 'pipe'],
-        env: process.env,
-      });
+  /**
+   * The profile a tool call refers to: the one given, else the active one
+   */
+  private resolveEnvProfile(workspaceRoot: string, profile?: string): string {
+    if (profile === undefined) return getActiveEnvProfile(workspaceRoot);
+    validateProfileName(profile);
+    return profile;
+  }
 
-      let output = '';
-      let errorOutput = '';
+  private async listSSTEnvProfiles({ workspaceRoot }: { workspaceRoot: string }) {
+    this.validateWorkspaceRoot(workspaceRoot);
+    const profiles = listEnvProfiles(workspaceRoot);
+    return {
+      content: [{ type: 'text', text: JSON.stringify({ active: getActiveEnvProfile(workspaceRoot), profiles }, null, 2) }],
+    };
+  }
 
-      if (removeProcess.stdout) {
-        removeProcess.stdout.on('data', (data) => {
-          const text = data.toString();
-          output += text;
-          process.stdout.write(text);
-        });
-      }
+  private async createSSTEnvProfile(
+    { workspaceRoot, name, copyFrom, variables }: { workspaceRoot: string; name: string; copyFrom?: string; variables?: Record<string, string> }
+  ) {
+    this.validateWorkspaceRoot(workspaceRoot);
 
-      if (removeProcess.stderr) {
-        removeProcess.stderr.on('data', (data) => {
-          const text = data.toString();
-          errorOutput += text;
-          process.stderr.write(text);
-        });
-      }
+    // Check the variables before the file is created
+    if (variables) updateEnv('', { set: variables });
+    const envPath = createEnvProfile(workspaceRoot, name, copyFrom);
+    if (variables) {
+      writeFileSync(envPath, updateEnv(readFileSync(envPath, 'utf8'), { set: variables }).content, 'utf8');
+    }
 
-      removeProcess.on('close', (code) => {
-        if (code === 0) {
-          resolve({ content: [{ type: 'text', text: `Stage "${stage}" removed successfully.\n\n${output}` }] });
-        } else {
-          reject(new Error(`Failed to remove stage "${stage}" (code ${code}):\n${errorOutput}`));
-        }
-      });
+    const from = copyFrom !== undefined ? ` from "${copyFrom}"` : '';
+    return {
+      content: [{ type: 'text', text: `Created env profile "${name}"${from} at ${envPath}. Use switch-sst-env-profile or start-sst-dev with profile="${name}" to load it.` }],
+    };
+  }
 
-      removeProcess.on('error', (error) => {
-        reject(new Error(`Failed to run sst remove: ${error.message}`));
-      });
-    });
+  private async switchSSTEnvProfile({ workspaceRoot, name }: { workspaceRoot: string; name: string }) {
+    this.validateWorkspaceRoot(workspaceRoot);
+
+    const previous = getActiveEnvProfile(workspaceRoot);
+    setActiveEnvProfile(workspaceRoot, name);
+
+    const session = this.devSessions.get(workspaceRoot);
+    const running = session?.state === 'running' && previous !== name;
+    const note = running ? ' SST dev is restarting with the new variables.' : '';
+    return { content: [{ type: 'text', text: `Active env profile is now "${name}" (was "${previous}").${note}` }] };
   }
 
-  private async getSSTEnv({ workspaceRoot }: { workspaceRoot: string }) {
-    const envPath = SSTConfig.getEnvPath(workspaceRoot);
-    
-    if (!existsSync(envPath)) {
-      return { content: [{ type: 'text', text: 'No env.sh file found.' }] };
+  private async invokeSSTFunction(
+    { workspaceRoot, functionName, payload, fixture, invocationType = 'RequestResponse', qualifier, stage = SSTConfig.DEFAULT_STAGE, region, profile }: InvokeArgs,
+    context: OperationContext = {}
+  ) {
+    this.validateWorkspaceRoot(workspaceRoot);
+
+    if (payload !== undefined && fixture !== undefined) {
+      throw new Error('Pass either payload or fixture, not both');
+    }
+    if (!INVOCATION_TYPES.includes(invocationType)) {
+      throw new Error(`invocationType must be one of: ${INVOCATION_TYPES.join(', ')}`);
     }
 
-    try {
-      const content = readFileSync(envPath, 'utf8');
-      return { content: [{ type: 'text', text: content }] };
-    } catch (error) {
-      throw new Error(`Failed to read env.sh: ${error instanceof Error ? error.message : String(error)}`);
+    let body = payload ?? '{}';
+    if (fixture !== undefined) {
+      body = JSON.stringify(loadPayload(workspaceRoot, fixture));
+    } else {
+      try {
+        JSON.parse(body);
+      } catch (error) {
+        throw new Error(`payload must be valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+      }
     }
-  }
 
-  private async setSSTEnv({ workspaceRoot, variables }: { workspaceRoot: string; variables: Record<string, string> }) {
-    const envPath = SSTConfig.getEnvPath(workspaceRoot);
-    
-    try {
-      let content = '';
-      
-      if (existsSync(envPath)) {
-        content = readFileSync(envPath, 'utf8');
+    // Only the stage's own outputs; outputs.json belongs to whichever stage ran last
+    const outputs = readStageOutputs(workspaceRoot, stage);
+    const resolved = resolveFunctionName(functionName, outputs?.outputs ?? null);
+    if (!outputs && resolved.resolvedFrom === 'as-is') {
+      const latest = readStageOutputs(workspaceRoot, null);
+      if (latest && resolveFunctionName(functionName, latest.outputs).resolvedFrom === 'output') {
+        throw new Error(
+          `No outputs saved for stage "${stage}"; "${functionName}" is only in ${latest.path}, which may belong to another stage. ` +
+          `Deploy stage "${stage}" first, or pass the physical function name or ARN.`
+        );
       }
+    }
+    this.logger.info('Invoking function', { workspaceRoot, functionName, resolved: resolved.name, invocationType, fixture, stage });
 
-      const lines = content.split('\n');
-      const existingVars = new Map<string, number>();
-      
-      lines.forEach((line, idx) => {
-        const match = line.match(/^export\s+([A-Z_][A-Z0-9_]*)=/);
-        if (match) existingVars.set(match[1], idx);
-      });
+    // With sst dev running, the call is served locally and its console output shows up in the session
+    const session = this.devSessions.get(workspaceRoot);
+    const capture = session?.state === 'running' && invocationType === 'RequestResponse' ? this.captureDevOutput(session) : null;
 
-      for (const [key, value] of Object.entries(variables)) {
-        const newLine = `export ${key}="${value}"`;
-        
-        if (existingVars.has(key)) {
-          lines[existingVars.get(key)!] = newLine;
-        } else {
-          lines.push(newLine);
-        }
+    try {
+      let raw: RawInvokeResponse;
+      try {
+        raw = await this.functionInvoker.invoke(
+          { functionName: resolved.name, payload: body, invocationType, qualifier },
+          { region: region ?? resolved.region ?? undefined, profile, signal: context.signal }
+        );
+      } catch (error) {
+        throw new Error(`Failed to invoke function "${resolved.name}": ${error instanceof Error ? error.message : String(error)}`);
       }
 
-      const { writeFileSync } = await import('fs');
-      writeFileSync(envPath, lines.join('\n') + '\n', 'utf8');
+      const result = parseInvokeResponse(raw, resolved, invocationType);
+      const names = [functionName, resolved.name.match(/function:([\w-]+)/)?.[1] ?? resolved.name];
+      const localLogs = capture ? await this.waitForInvocationLogs(capture, result.requestId, names, context.signal) : null;
+      return { content: [{ type: 'text', text: JSON.stringify({ ...result, localLogs }, null, 2) }] };
+    } finally {
+      capture?.dispose();
+    }
+  }
 
-      return { content: [{ type: 'text', text: `Environment variables updated in env.sh. SST dev will auto-restart if running.` }] };
-    } catch (error) {
-      throw new Error(`Failed to update env.sh: ${error instanceof Error ? error.message : String(error)}`);
+  /**
+   * Collect a dev session's output from now until dispose()
+   */
+  private captureDevOutput(session: DevSession): { text(): string; dispose(): void } {
+    let buffer = '';
+    const onData = (data: Buffer) => {
+      buffer += data.toString();
+    };
+    session.process.stdout?.on('data', onData);
+    session.process.stderr?.on('data', onData);
+    return {
+      text: () => buffer,
+      dispose: () => {
+        session.process.stdout?.off('data', onData);
+        session.process.stderr?.off('data', onData);
+      },
+    };
+  }
+
+  /**
+   * Poll captured dev output until the invocation's block is complete or LIVE_LOG_WAIT_MS passes
+   */
+  private async waitForInvocationLogs(
+    capture: { text(): string },
+    requestId: string | null,
+    names: string[],
+    signal?: AbortSignal
+  ): Promise<InvocationLogs> {
+    const deadline = Date.now() + SSTConfig.LIVE_LOG_WAIT_MS;
+    let logs = correlateInvocationLogs(capture.text(), requestId, names);
+    while (!logs.complete && Date.now() < deadline && !signal?.aborted) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+      logs = correlateInvocationLogs(capture.text(), requestId, names);
     }
+    return logs;
   }
 
-  private async invokeSSTFunction({ workspaceRoot, functionName, payload = '{}', stage = SSTConfig.DEFAULT_STAGE }: { workspaceRoot: string; functionName: string; payload?: string; stage?: string }) {
-    return new Promise<{ content: Array<{ type: string; text: string }> }>((resolve, reject) => {
-      const invokeProcess = spawn(SSTConfig.NPX_COMMAND, [SSTConfig.SST_COMMAND, 'shell', '--stage', stage, '--', 'aws', 'lambda', 'invoke', '--function-name', functionName, '--payload', payload, '/dev/stdout'], {
-        cwd: workspaceRoot,
-        stdio: ['inherit', 'pipe', 'pipe'],
-        env: process.env,
-      });
+  private async saveSSTPayload({ workspaceRoot, name, payload, template }: { workspaceRoot: string; name: string; payload?: string; template?: string }) {
+    this.validateWorkspaceRoot(workspaceRoot);
 
-      let output = '';
-      let errorOutput = '';
+    if ((payload === undefined) === (template === undefined)) {
+      throw new Error('Pass exactly one of payload or template');
+    }
 
-      if (invokeProcess.stdout) {
-        invokeProcess.stdout.on('data', (data) => {
-          output += data.toString();
-        });
+    let value: unknown;
+    if (template !== undefined) {
+      if (!Object.hasOwn(PAYLOAD_TEMPLATES, template)) {
+        throw new Error(`Unknown template "${template}". Templates: ${Object.keys(PAYLOAD_TEMPLATES).join(', ')}`);
       }
-
-      if (invokeProcess.stderr) {
-        invokeProcess.stderr.on('data', (data) => {
-          errorOutput += data.toString();
-        });
+      value = PAYLOAD_TEMPLATES[template];
+    } else {
+      try {
+        value = JSON.parse(payload!);
+      } catch (error) {
+        throw new Error(`payload must be valid JSON: ${error instanceof Error ? error.message : String(error)}`);
       }
+    }
 
-      invokeProcess.on('close', (code) => {
-        if (code === 0) {
-          resolve({ content: [{ type: 'text', text: `Function "${functionName}" invoked:\n\n${output}` }] });
-        } else {
-          reject(new Error(`Failed to invoke function (code ${code}):\n${errorOutput}`));
-        }
-      });
+    const path = savePayload(workspaceRoot, name, value);
+    return { content: [{ type: 'text', text: `Saved payload "${name}" to ${path}. Use it with invoke-sst-function fixture="${name}".` }] };
+  }
 
-      invokeProcess.on('error', (error) => {
-        reject(new Error(`Failed to invoke function: ${error.message}`));
-      });
-    });
+  private async listSSTPayloads({ workspaceRoot }: { workspaceRoot: string }) {
+    this.validateWorkspaceRoot(workspaceRoot);
+
+    const saved = listPayloads(workspaceRoot).map(name => ({ name, payload: loadPayload(workspaceRoot, name) }));
+    return {
+      content: [{ type: 'text', text: JSON.stringify({ saved, templates: Object.keys(PAYLOAD_TEMPLATES) }, null, 2) }],
+    };
   }
 
   private async cleanupSST({ workspaceRoot }: { workspaceRoot: string }) {
@@ -1319,13 +2817,20 @@ class MCPSSTServer {
       }
     }
 
+    const sst = detectSSTCommand(workspaceRoot);
+    results.push('');
+    results.push(sst.binaryPath
+      ? `✓ sst binary - ${relative(workspaceRoot, sst.binaryPath) || sst.binaryPath}`
+      : `  sst binary - not installed locally, will run "${formatSSTCommand(workspaceRoot, sst)}"`);
+    results.push(`  package manager - ${sst.packageManager}${sst.packageManagerFile ? ` (${relative(workspaceRoot, sst.packageManagerFile)})` : ' (default)'}`);
+
     results.push('');
     results.push(isValid ? 'Workspace is valid ✓' : 'Workspace is INVALID - missing required files ✗');
 
     return { content: [{ type: 'text', text: results.join('\n') }] };
   }
 
-  private async sstDiff({ workspaceRoot, target, dev }: { workspaceRoot: string; target?: string; dev?: boolean }) {
+  private async sstDiff({ workspaceRoot, target, dev }: { workspaceRoot: string; target?: string; dev?: boolean }, context: OperationContext = {}) {
     this.validateWorkspaceRoot(workspaceRoot);
     this.logger.info('Running SST diff', { workspaceRoot, target, dev });
 
@@ -1333,17 +2838,26 @@ class MCPSSTServer {
     if (target) args.push('--target', target);
     if (dev) args.push('--dev');
 
-    return await this.runSSTCommand(workspaceRoot, args, 'diff');
+    const result = await this.runSSTCommand(workspaceRoot, args, 'diff', undefined, context);
+    const raw = result.content[0]?.text ?? '';
+    const plan = parseDiff(raw);
+
+    return {
+      content: [
+        { type: 'text', text: JSON.stringify(plan, null, 2) },
+        { type: 'text', text: raw },
+      ],
+    };
   }
 
-  private async sstRefresh({ workspaceRoot, target }: { workspaceRoot: string; target?: string }) {
+  private async sstRefresh({ workspaceRoot, target }: { workspaceRoot: string; target?: string }, context: OperationContext = {}) {
     this.validateWorkspaceRoot(workspaceRoot);
     this.logger.info('Running SST refresh', { workspaceRoot, target });
 
     const args = ['refresh'];
     if (target) args.push('--target', target);
 
-    return await this.runSSTCommand(workspaceRoot, args, 'refresh');
+    return await this.runSSTCommand(workspaceRoot, args, 'refresh', undefined, context);
   }
 
   private async sstUnlock({ workspaceRoot }: { workspaceRoot: string }) {
@@ -1353,64 +2867,268 @@ class MCPSSTServer {
     return await this.runSSTCommand(workspaceRoot, ['unlock'], 'unlock');
   }
 
-  private async sstSecretSet({ workspaceRoot, name, value, fallback }: { workspaceRoot: string; name: string; value: string; fallback?: boolean }) {
+  // `--fallback` and `--stage` shared by every secret command
+  private secretArgs(args: string[], { fallback, stage }: { fallback?: boolean; stage?: string }): string[] {
+    if (fallback) args.push('--fallback');
+    if (stage) args.push('--stage', stage);
+    return args;
+  }
+
+  /**
+   * Learn a stage's secret values before sst prints them. A stage whose
+   * secrets cannot be listed is still deployed; only the warning is logged.
+   */
+  private async loadStageSecrets(workspaceRoot: string, stage: string): Promise<void> {
+    try {
+      await this.redactor.loadStageSecrets(workspaceRoot, stage);
+    } catch (error) {
+      this.logger.warn('Could not load secrets to redact', { workspaceRoot, stage, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  /**
+   * Secrets of a stage as name/value pairs, from `sst secret list`
+   */
+  private async readSecrets(workspaceRoot: string, options: { fallback?: boolean; stage?: string }): Promise<Record<string, string>> {
+    const result = await this.runSSTCommand(workspaceRoot, this.secretArgs(['secret', 'list'], options), 'secret list');
+    const secrets = parseSecretList(result.content[0]?.text ?? '');
+    this.redactor.addValues(Object.values(secrets));
+    return secrets;
+  }
+
+  private async sstSecretSet({ workspaceRoot, name, value, fallback, stage }: { workspaceRoot: string; name: string; value: string; fallback?: boolean; stage?: string }) {
     this.validateWorkspaceRoot(workspaceRoot);
-    this.logger.info('Setting SST secret', { workspaceRoot, name, fallback });
+    this.logger.info('Setting SST secret', { workspaceRoot, name, fallback, stage });
 
-    const args = ['secret', 'set', name, value];
-    if (fallback) args.push('--fallback');
+    this.redactor.addValues([value]);
+    // sst reads the value from stdin when it is not an argument, which keeps it out of ps
+    const args = this.secretArgs(['secret', 'set', name], { fallback, stage });
+    return await this.runSSTCommand(workspaceRoot, args, 'secret set', undefined, {}, value);
+  }
 
-    return await this.runSSTCommand(workspaceRoot, args, 'secret set');
+  private async sstSecretGet(
+    { workspaceRoot, name, fallback, stage, mask = false }: { workspaceRoot: string; name: string; fallback?: boolean; stage?: string; mask?: boolean }
+  ) {
+    this.validateWorkspaceRoot(workspaceRoot);
+    this.logger.info('Getting SST secret', { workspaceRoot, name, fallback, stage });
+
+    const secrets = await this.readSecrets(workspaceRoot, { fallback, stage });
+    if (!Object.hasOwn(secrets, name)) {
+      const names = Object.keys(secrets);
+      throw new Error(`Secret ${name} is not set${stage ? ` on stage "${stage}"` : ''}${fallback ? ' (fallback)' : ''}. Set secrets: ${names.join(', ') || 'none'}`);
+    }
+
+    const value = secrets[name];
+    const result = { name, stage: stage ?? null, fallback: !!fallback, value: mask ? maskEnvValue(value) : value, masked: mask };
+    return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
   }
 
-  private async sstSecretGet({ workspaceRoot, name, fallback }: { workspaceRoot: string; name: string; fallback?: boolean }) {
+  private async sstSecretList({ workspaceRoot, fallback, stage }: { workspaceRoot: string; fallback?: boolean; stage?: string }) {
     this.validateWorkspaceRoot(workspaceRoot);
-    this.logger.info('Getting SST secret', { workspaceRoot, name, fallback });
+    this.logger.info('Listing SST secrets', { workspaceRoot, fallback, stage });
 
-    const args = ['secret', 'list'];
-    if (fallback) args.push('--fallback');
+    const result = await this.runSSTCommand(workspaceRoot, this.secretArgs(['secret', 'list'], { fallback, stage }), 'secret list');
+    this.redactor.addValues(Object.values(parseSecretList(result.content[0]?.text ?? '')));
+    return result;
+  }
+
+  private async sstSecretRemove({ workspaceRoot, name, fallback, stage }: { workspaceRoot: string; name: string; fallback?: boolean; stage?: string }) {
+    this.validateWorkspaceRoot(workspaceRoot);
+    this.logger.info('Removing SST secret', { workspaceRoot, name, fallback, stage });
 
-    return await this.runSSTCommand(workspaceRoot, args, 'secret get');
+    return await this.runSSTCommand(workspaceRoot, this.secretArgs(['secret', 'remove', name], { fallback, stage }), 'secret remove');
   }
 
-  private async sstSecretList({ workspaceRoot, fallback }: { workspaceRoot: string; fallback?: boolean }) {
+  /**
+   * Set every secret in a dotenv file with `sst secret load`
+   */
+  private async sstSecretLoad({ workspaceRoot, file, fallback, stage }: { workspaceRoot: string; file: string; fallback?: boolean; stage?: string }) {
     this.validateWorkspaceRoot(workspaceRoot);
-    this.logger.info('Listing SST secrets', { workspaceRoot, fallback });
+    const filePath = resolveSecretsFile(workspaceRoot, file, true);
 
-    const args = ['secret', 'list'];
-    if (fallback) args.push('--fallback');
+    const parsed = parseEnv(readFileSync(filePath, 'utf8'));
+    const names = [...new Set(parsed.entries.map(entry => entry.key))];
+    if (names.length === 0) {
+      throw new Error(`No secrets found in ${filePath}`);
+    }
+    this.logger.info('Loading SST secrets', { workspaceRoot, file: filePath, names, fallback, stage });
+    this.redactor.addValues(parsed.entries.map(entry => entry.value));
 
-    return await this.runSSTCommand(workspaceRoot, args, 'secret list');
+    await this.runSSTCommand(workspaceRoot, this.secretArgs(['secret', 'load', filePath], { fallback, stage }), 'secret load');
+
+    const result = {
+      file: filePath,
+      stage: stage ?? null,
+      fallback: !!fallback,
+      loaded: names,
+      issues: parsed.issues.map(issue => ({ line: issue.line, message: issue.message })),
+    };
+    return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
   }
 
-  private async sstSecretRemove({ workspaceRoot, name, fallback }: { workspaceRoot: string; name: string; fallback?: boolean }) {
+  /**
+   * Write a stage's secrets to a dotenv file that sst-secret-load can read back
+   */
+  private async sstSecretUnload(
+    { workspaceRoot, file, fallback, stage, overwrite = false }: { workspaceRoot: string; file: string; fallback?: boolean; stage?: string; overwrite?: boolean }
+  ) {
     this.validateWorkspaceRoot(workspaceRoot);
-    this.logger.info('Removing SST secret', { workspaceRoot, name, fallback });
+    const filePath = resolveSecretsFile(workspaceRoot, file, false);
+    await checkSecretsTarget(workspaceRoot, filePath, overwrite);
 
-    const args = ['secret', 'remove', name];
-    if (fallback) args.push('--fallback');
+    const secrets = await this.readSecrets(workspaceRoot, { fallback, stage });
+    const names = Object.keys(secrets).sort();
+    this.logger.info('Unloading SST secrets', { workspaceRoot, file: filePath, names, fallback, stage });
+
+    const header = `SST secrets${stage ? ` for stage ${stage}` : ''}${fallback ? ' (fallback)' : ''}, written ${new Date().toISOString()}`;
+    // Readable by the owner only; mode only applies to a new file, so set it again for a replaced one
+    writeFileSync(filePath, formatSecretsDotenv(secrets, header), { encoding: 'utf8', mode: 0o600 });
+    chmodSync(filePath, 0o600);
+
+    const result = { file: filePath, stage: stage ?? null, fallback: !!fallback, unloaded: names };
+    return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+  }
 
-    return await this.runSSTCommand(workspaceRoot, args, 'secret remove');
+  /**
+   * Compare the secret names of two stages. Values are read but never returned.
+   */
+  private async sstSecretDiff(
+    { workspaceRoot, stage, compareTo, fallback }: { workspaceRoot: string; stage?: string; compareTo: string; fallback?: boolean }
+  ) {
+    this.validateWorkspaceRoot(workspaceRoot);
+    if (!compareTo) {
+      throw new Error('compareTo is required');
+    }
+    // The policy check before dispatch only covers `stage`
+    checkPolicy(loadPolicy(workspaceRoot), 'sst-secret-diff', compareTo);
+    this.logger.info('Comparing SST secrets', { workspaceRoot, stage, compareTo, fallback });
+
+    const [current, other] = await Promise.all([
+      this.readSecrets(workspaceRoot, { fallback, stage }),
+      this.readSecrets(workspaceRoot, { fallback, stage: compareTo }),
+    ]);
+
+    const result = { stage: stage ?? null, compareTo, fallback: !!fallback, ...diffSecrets(current, other) };
+    return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
   }
 
-  private async sstShellExec({ workspaceRoot, command, target }: { workspaceRoot: string; command: string; target?: string }) {
+  /**
+   * Run one command through `sst shell` without a shell, so arguments reach it
+   * exactly as given. A non-zero exit is reported in the result, not thrown.
+   */
+  private async sstShellExec({ workspaceRoot, command, argv, target, cwd, env }: ShellExecArgs, context: OperationContext = {}) {
     this.validateWorkspaceRoot(workspaceRoot);
-    this.logger.info('Executing shell command', { workspaceRoot, command, target });
+
+    if ((command === undefined) === (argv === undefined)) {
+      throw new Error('Pass either command or argv');
+    }
+    const commandArgv = argv ?? tokenizeCommand(command!);
+    if (!Array.isArray(commandArgv) || commandArgv.length === 0 || commandArgv.some(arg => typeof arg !== 'string') || !commandArgv[0]) {
+      throw new Error('The command is empty; argv must be a non-empty array of strings');
+    }
+    checkExecutable(loadShellPolicy(workspaceRoot), commandArgv[0]);
+    const workingDir = resolveShellCwd(workspaceRoot, cwd);
+    const extraEnv = validateShellEnv(env);
+
+    // Only the names of extra variables are logged; their values may be credentials
+    this.logger.info('Executing shell command', { workspaceRoot, argv: commandArgv, target, cwd: workingDir, env: Object.keys(extraEnv) });
 
     const args = ['shell'];
     if (target) args.push('--target', target);
-    args.push('--', ...command.split(' '));
+    args.push('--', ...commandArgv);
+
+    const { reporter } = context;
+    const controller = this.createAbortController(context.signal);
+    const startedAt = Date.now();
+
+    const result = await new Promise<{ exitCode: number | null; signal: string | null; timedOut: boolean; truncated: boolean; stdout: string; stderr: string }>((resolve, reject) => {
+      // stdin is the MCP channel, so the command must not inherit it
+      const sst = resolveSSTCommand(workspaceRoot);
+      const proc = spawn(sst.command, [...sst.args, ...args], {
+        cwd: workingDir,
+        stdio: ['ignore', 'pipe', 'pipe'],
+        env: { ...process.env, ...extraEnv },
+      });
+      const abort = this.killOnAbort(proc, controller.signal, 'shell exec');
+
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, getServerConfig(workspaceRoot).shellExecTimeoutMs);
+
+      // Keep the end of each stream; that is where errors are
+      const output = { stdout: '', stderr: '' };
+      let truncated = false;
+      const capture = (stream: OutputStream) => (data: Buffer) => {
+        const text = data.toString();
+        output[stream] += text;
+        if (output[stream].length > 2 * SSTConfig.SHELL_OUTPUT_MAX_CHARS) {
+          output[stream] = output[stream].slice(-SSTConfig.SHELL_OUTPUT_MAX_CHARS);
+          truncated = true;
+        }
+        reporter?.write(text, stream);
+      };
+      proc.stdout?.on('data', capture('stdout'));
+      proc.stderr?.on('data', capture('stderr'));
+
+      proc.on('close', (code, signal) => {
+        clearTimeout(timer);
+        abort.dispose();
+        reporter?.flush();
+
+        if (abort.killedPids && !timedOut) {
+          reject(new Error(`shell exec was cancelled (killed PIDs: ${abort.killedPids.join(', ') || 'none'})\n${output.stdout}`));
+          return;
+        }
+        resolve({ exitCode: code, signal, timedOut, truncated, ...output });
+      });
+
+      proc.on('error', (error) => {
+        clearTimeout(timer);
+        abort.dispose();
+        reject(new Error(`Failed to run sst shell: ${error.message}`));
+      });
+    });
+
+    const truncate = (text: string) => text.length > SSTConfig.SHELL_OUTPUT_MAX_CHARS ? text.slice(-SSTConfig.SHELL_OUTPUT_MAX_CHARS) : text;
+    const response = {
+      argv: commandArgv,
+      cwd: workingDir,
+      target: target ?? null,
+      exitCode: result.exitCode,
+      signal: result.signal,
+      timedOut: result.timedOut,
+      durationMs: Date.now() - startedAt,
+      stdout: truncate(result.stdout),
+      stderr: truncate(result.stderr),
+      truncated: result.truncated || result.stdout.length > SSTConfig.SHELL_OUTPUT_MAX_CHARS || result.stderr.length > SSTConfig.SHELL_OUTPUT_MAX_CHARS,
+    };
+
+    if (result.exitCode === 0) {
+      this.logger.info('shell exec completed', { durationMs: response.durationMs });
+    } else {
+      this.logger.error('shell exec failed', { exitCode: result.exitCode, signal: result.signal, timedOut: result.timedOut });
+    }
 
-    return await this.runSSTCommand(workspaceRoot, args, 'shell exec', 60000);
+    return {
+      content: [{ type: 'text', text: JSON.stringify(response, null, 2) }],
+      isError: result.exitCode !== 0,
+    };
   }
 
-  private async sstUpgrade({ version }: { version?: string }) {
-    this.logger.info('Upgrading SST', { version });
+  private async sstUpgrade({ workspaceRoot, version }: { workspaceRoot?: string; version?: string }, context: OperationContext = {}) {
+    this.logger.info('Upgrading SST', { workspaceRoot, version });
 
     const args = ['upgrade'];
     if (version) args.push(version);
 
-    return await this.runSSTCommand(process.cwd(), args, 'upgrade');
+    if (workspaceRoot) {
+      this.validateWorkspaceRoot(workspaceRoot);
+      return await this.runSSTCommand(workspaceRoot, args, 'upgrade', undefined, context);
+    }
+    // No workspace: the CLI from npm, in the server's directory, with server-wide settings only
+    return await this.runSSTCommand(process.cwd(), args, 'upgrade', getServerConfig().commandTimeoutMs, context, undefined, globalSSTCommand());
   }
 
   private async sstVersion({ workspaceRoot }: { workspaceRoot: string }) {
@@ -1423,40 +3141,55 @@ class MCPSSTServer {
     workspaceRoot: string,
     args: string[],
     operation: string,
-    timeoutMs: number = 120000
+    timeoutMs: number = getServerConfig(workspaceRoot).commandTimeoutMs,
+    context: OperationContext = {},
+    input?: string,
+    sst: SSTCommand = resolveSSTCommand(workspaceRoot)
   ): Promise<{ content: Array<{ type: string; text: string }> }> {
+    const { reporter, job } = context;
+    const controller = this.createAbortController(context.signal);
+
     const commandPromise = new Promise<{ content: Array<{ type: string; text: string }> }>((resolve, reject) => {
-      const proc = spawn(SSTConfig.NPX_COMMAND, [SSTConfig.SST_COMMAND, ...args], {
+      // `input` goes to stdin so values such as secrets stay out of argv
+      const proc = spawn(sst.command, [...sst.args, ...args], {
         cwd: workspaceRoot,
-        stdio: ['inherit', 'pipe', 'pipe'],
+        stdio: [input === undefined ? 'inherit' : 'pipe', 'pipe', 'pipe'],
         env: process.env,
       });
+      if (input !== undefined) {
+        // The command may exit before reading it all; that is reported through its exit code
+        proc.stdin?.on('error', () => {});
+        proc.stdin?.end(input);
+      }
 
-      const cancelKey = `${operation}-${Date.now()}`;
-      this.cancelHandlers.set(cancelKey, () => {
-        proc.kill('SIGTERM');
-        this.logger.info(`${operation} cancelled`);
-      });
+      const abort = this.killOnAbort(proc, controller.signal, operation);
 
       let output = '';
       let errorOutput = '';
 
       if (proc.stdout) {
         proc.stdout.on('data', (data) => {
-          output += data.toString();
+          const text = data.toString();
+          output += text;
+          reporter?.write(text, 'stdout');
         });
       }
 
       if (proc.stderr) {
         proc.stderr.on('data', (data) => {
-          errorOutput += data.toString();
+          const text = data.toString();
+          errorOutput += text;
+          reporter?.write(text, 'stderr');
         });
       }
 
       proc.on('close', (code) => {
-        this.cancelHandlers.delete(cancelKey);
+        abort.dispose();
+        reporter?.flush();
 
-        if (code === 0) {
+        if (abort.killedPids) {
+          reject(new Error(`${operation} was cancelled (killed PIDs: ${abort.killedPids.join(', ') || 'none'})\n${output}`));
+        } else if (code === 0) {
           this.logger.info(`${operation} completed`, { code });
           resolve({
             content: [{ type: 'text', text: output || `${operation} completed successfully` }]
@@ -1468,23 +3201,214 @@ class MCPSSTServer {
       });
 
       proc.on('error', (error) => {
-        this.cancelHandlers.delete(cancelKey);
+        abort.dispose();
         this.logger.error(`${operation} process error`, { error: error.message });
         reject(new Error(`Failed to run ${operation}: ${error.message}`));
       });
     });
 
+    if (job) {
+      return await commandPromise;
+    }
+
     return await this.withTimeout(
       commandPromise,
       timeoutMs,
       operation,
-      () => {
-        const handler = this.cancelHandlers.get(`${operation}-${Date.now()}`);
-        if (handler) handler();
-      }
+      () => controller.abort()
     );
   }
 
+  /**
+   * Apply .sst/mcp-policy.json to a guarded tool call. Throws if the tool is not
+   * allowed on the stage. Returns a confirmation request with a diff summary and
+   * token when the call has to be repeated, or null when it may go ahead.
+   */
+  private async enforcePolicy(tool: string, args: GuardedArgs, context: OperationContext) {
+    const { workspaceRoot, confirmationToken } = args;
+    this.validateWorkspaceRoot(workspaceRoot);
+
+    const policy = loadPolicy(workspaceRoot);
+    const stage = this.resolvePolicyStage(tool, args);
+    if (!stage) {
+      // Without a stage there is no telling whether a protected one is meant, so refuse
+      if (policy && Object.values(policy.stages).some(stagePolicy => stagePolicy.protected)) {
+        throw new Error(
+          `${tool} needs a stage in this workspace: ${SSTConfig.getPolicyPath(workspaceRoot)} protects stages and ` +
+          `${SSTConfig.getStageFilePath(workspaceRoot)} does not name the default one. Pass stage.`
+        );
+      }
+      return null;
+    }
+
+    const decision = checkPolicy(policy, tool, stage);
+    if (!decision || !decision.requireConfirmation) return null;
+
+    if (confirmationToken) {
+      this.confirmations.consume(confirmationToken, tool, workspaceRoot, stage, args);
+      this.logger.info('Confirmed call on protected stage', { tool, workspaceRoot, stage, policy: decision.matched });
+      return null;
+    }
+
+    const summary = await this.describeGuardedCall(tool, args, stage, context);
+    const { token, expiresAt } = this.confirmations.issue(tool, workspaceRoot, stage, args);
+    this.logger.info('Confirmation required for protected stage', { tool, workspaceRoot, stage, policy: decision.matched });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            confirmationRequired: true,
+            tool,
+            stage,
+            policy: decision.matched,
+            summary,
+            confirmationToken: token,
+            expiresAt: expiresAt.toISOString(),
+            message: `Stage "${stage}" is protected. Review the summary, then call ${tool} again with the same arguments and confirmationToken "${token}".`,
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  // Deploy tools default to DEFAULT_STAGE; secret tools to SST's personal stage, if known
+  private resolvePolicyStage(tool: string, { workspaceRoot, stage }: GuardedArgs): string | null {
+    if (stage) return stage;
+    if (!tool.startsWith('sst-secret-')) return SSTConfig.DEFAULT_STAGE;
+
+    const stageFile = SSTConfig.getStageFilePath(workspaceRoot);
+    return existsSync(stageFile) ? readFileSync(stageFile, 'utf8').trim() || null : null;
+  }
+
+  /**
+   * Summarize what a guarded call would change, for the confirmation request
+   */
+  private async describeGuardedCall(tool: string, args: GuardedArgs, stage: string, context: OperationContext) {
+    switch (tool) {
+      case 'sst-deploy':
+      case 'sst-restart-for-infra':
+        try {
+          const result = await this.runSSTCommand(args.workspaceRoot, ['diff', '--stage', stage], 'diff', undefined, context);
+          const { summary, destructive, changes } = parseDiff(result.content[0]?.text ?? '');
+          return {
+            action: tool === 'sst-deploy' ? `Deploy stage "${stage}"` : `Stop sst dev, deploy stage "${stage}", restart sst dev`,
+            summary,
+            destructive,
+            changes,
+          };
+        } catch (error) {
+          return {
+            action: `Deploy stage "${stage}"`,
+            diffError: error instanceof Error ? error.message : String(error),
+          };
+        }
+      case 'remove-sst-stage':
+        return { action: `Remove every resource in stage "${stage}"`, destructive: true };
+      case 'sst-secret-set':
+        return { action: `Set secret "${args.name}"${args.fallback ? ' (fallback)' : ''} on stage "${stage}"`, destructive: false };
+      case 'sst-secret-remove':
+        return { action: `Remove secret "${args.name}"${args.fallback ? ' (fallback)' : ''} from stage "${stage}"`, destructive: true };
+      case 'sst-secret-load':
+        return { action: `Set every secret in ${args.file}${args.fallback ? ' (fallback)' : ''} on stage "${stage}"`, destructive: false };
+      case 'sst-secret-unload':
+        return { action: `Write every secret${args.fallback ? ' (fallback)' : ''} of stage "${stage}" to ${args.file} in plaintext`, destructive: !!args.overwrite };
+      default:
+        return { action: `${tool} on stage "${stage}"` };
+    }
+  }
+
+  private startJob(tool: string, { async: _async, ...args }: { workspaceRoot: string; async?: boolean } & Record<string, unknown>) {
+    this.validateWorkspaceRoot(args.workspaceRoot);
+    const job = this.launchJob(tool, args);
+
+    const response = {
+      jobId: job.id,
+      tool,
+      status: job.status,
+      message: `Started ${tool} in the background. Use get-sst-job or wait-sst-job with jobId "${job.id}" to follow it.`,
+    };
+
+    return { content: [{ type: 'text', text: JSON.stringify(response, null, 2) }] };
+  }
+
+  private launchJob(tool: string, args: { workspaceRoot: string } & Record<string, unknown>): Job {
+    const job = this.jobs.start(tool, args.workspaceRoot, args, (job) => {
+      const reporter = this.createOutputReporter(`${tool}:${job.id}`, undefined, undefined, line => this.jobs.appendOutput(job, line));
+      const context: OperationContext = { reporter, job, signal: job.controller.signal };
+
+      switch (tool) {
+        case 'sst-deploy':
+          return this.sstDeploy(args as { workspaceRoot: string; stage?: string }, context);
+        case 'sst-restart-for-infra':
+          return this.sstRestartForInfra(args as { workspaceRoot: string; stage?: string }, context);
+        case 'remove-sst-stage':
+          return this.removeSSTStage(args as { workspaceRoot: string; stage: string }, context);
+        case 'sst-diff':
+          return this.sstDiff(args as { workspaceRoot: string; target?: string; dev?: boolean }, context);
+        case 'sst-refresh':
+          return this.sstRefresh(args as { workspaceRoot: string; target?: string }, context);
+        default:
+          return Promise.reject(new Error(`${tool} cannot run as a job`));
+      }
+    });
+
+    this.logger.info('Job started', { jobId: job.id, tool, workspaceRoot: args.workspaceRoot });
+    return job;
+  }
+
+  private getJobOrThrow(jobId: string): Job {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      throw new Error(`Job not found: ${jobId}`);
+    }
+    return job;
+  }
+
+  private async getSSTJob({ jobId, lines }: { jobId: string; lines?: number }) {
+    const job = this.getJobOrThrow(jobId);
+    lines ??= getServerConfig(job.workspaceRoot).defaultLogLines;
+    return { content: [{ type: 'text', text: JSON.stringify(this.jobs.describe(job, lines), null, 2) }] };
+  }
+
+  private async waitSSTJob({ jobId, timeoutMs, lines }: { jobId: string; timeoutMs?: number; lines?: number }) {
+    const job = this.getJobOrThrow(jobId);
+    const config = getServerConfig(job.workspaceRoot);
+    timeoutMs ??= config.jobWaitTimeoutMs;
+    lines ??= config.defaultLogLines;
+
+    let timer: NodeJS.Timeout | undefined;
+    await Promise.race([
+      job.done,
+      new Promise<void>(resolve => { timer = setTimeout(resolve, timeoutMs); }),
+    ]);
+    clearTimeout(timer);
+
+    return { content: [{ type: 'text', text: JSON.stringify(this.jobs.describe(job, lines), null, 2) }] };
+  }
+
+  private async cancelSSTJob({ jobId }: { jobId: string }) {
+    const job = this.getJobOrThrow(jobId);
+
+    if (!this.jobs.cancel(job)) {
+      return { content: [{ type: 'text', text: `Job ${jobId} already finished with status "${job.status}".` }] };
+    }
+
+    this.logger.info('Job cancel requested', { jobId, tool: job.tool });
+    return { content: [{ type: 'text', text: `Cancellation requested for job ${jobId} (${job.tool}).` }] };
+  }
+
+  private async listSSTDevSessions() {
+    const sessions = Array.from(this.devSessions.values()).map(session => this.describeDevSession(session));
+
+    if (sessions.length === 0) {
+      return { content: [{ type: 'text', text: 'No SST dev sessions are managed by this server.' }] };
+    }
+
+    return { content: [{ type: 'text', text: JSON.stringify({ count: sessions.length, sessions }, null, 2) }] };
+  }
+
   private async healthCheck(): Promise<{ content: Array<{ type: string; text: string }> }> {
     const health = {
       status: 'healthy',
@@ -1492,7 +3416,9 @@ class MCPSSTServer {
       memory: process.memoryUsage(),
       timestamp: new Date().toISOString(),
       activeOperations: this.operationTimeouts.size,
-      sstProcessRunning: this.sstProcess !== null,
+      runningJobs: this.jobs.running().map(job => ({ id: job.id, tool: job.tool, workspaceRoot: job.workspaceRoot })),
+      sstProcessRunning: this.devSessions.size > 0,
+      devSessions: Array.from(this.devSessions.values()).map(session => this.describeDevSession(session)),
       version: '2.0.0'
     };
     
@@ -1503,6 +3429,37 @@ class MCPSSTServer {
     };
   }
 
+  private async getSSTMcpConfig({ workspaceRoot }: { workspaceRoot?: string }) {
+    if (workspaceRoot !== undefined) this.validateWorkspaceRoot(workspaceRoot);
+
+    const config = loadServerConfig(workspaceRoot);
+    const settings = Object.fromEntries((Object.keys(CONFIG_SCHEMA) as ConfigKey[]).map(key => {
+      const option = CONFIG_SCHEMA[key];
+      return [key, {
+        value: config.values[key],
+        source: config.sources[key].source,
+        origin: config.sources[key].origin,
+        default: option.default,
+        env: option.env,
+        description: option.description,
+        // Read when the server starts; a change needs a restart
+        ...(option.serverOnly ? { serverOnly: true } : {}),
+      }];
+    }));
+
+    const result = {
+      workspaceRoot: workspaceRoot ?? null,
+      files: {
+        user: { path: config.userConfigPath, exists: existsSync(config.userConfigPath) },
+        workspace: config.workspaceConfigPath
+          ? { path: config.workspaceConfigPath, exists: existsSync(config.workspaceConfigPath) }
+          : null,
+      },
+      settings,
+    };
+    return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+  }
+
   async run() {
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
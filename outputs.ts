@@ -0,0 +1,209 @@
+import { copyFileSync, existsSync, mkdirSync, readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { SSTConfig } from './config.js';
+
+export type ResourceType =
+  | 'Function'
+  | 'Api'
+  | 'Bucket'
+  | 'Dynamo'
+  | 'StaticSite'
+  | 'Queue'
+  | 'Topic'
+  | 'Postgres'
+  | 'Cognito'
+  | 'Other';
+
+export interface InventoryItem {
+  /** Output key, dotted for nested outputs, e.g. "api.url" */
+  key: string;
+  value: unknown;
+  urls: string[];
+  arns: string[];
+}
+
+export interface Inventory {
+  stage: string | null;
+  /** When the outputs file was written */
+  updatedAt: string | null;
+  resources: Partial<Record<ResourceType, InventoryItem[]>>;
+  urls: string[];
+  arns: string[];
+}
+
+export interface InventoryDiff {
+  from: string;
+  to: string;
+  added: Array<InventoryItem & { type: ResourceType }>;
+  removed: Array<InventoryItem & { type: ResourceType }>;
+  changed: Array<{ key: string; type: ResourceType; from: unknown; to: unknown }>;
+  unchanged: number;
+}
+
+const URL_PATTERN = /https?:\/\/[^\s"',]+/g;
+const ARN_PATTERN = /arn:aws[\w-]*:[\w-]+:[\w-]*:\d*:[^\s"',]+/g;
+
+// Checked in order against the output's ARNs, URLs, then key; first match wins
+const VALUE_TYPES: Array<[ResourceType, RegExp]> = [
+  ['Function', /arn:aws[\w-]*:lambda:|\.lambda-url\.[\w-]+\.on\.aws/],
+  ['Api', /arn:aws[\w-]*:(?:apigateway|execute-api|appsync):|\.execute-api\.[\w-]+\.amazonaws\.com|\.appsync-api\./],
+  ['Dynamo', /arn:aws[\w-]*:dynamodb:/],
+  ['Bucket', /arn:aws[\w-]*:s3:::|\.s3[.-][\w.-]*amazonaws\.com/],
+  ['Queue', /arn:aws[\w-]*:sqs:|sqs\.[\w-]+\.amazonaws\.com/],
+  ['Topic', /arn:aws[\w-]*:sns:/],
+  ['Postgres', /arn:aws[\w-]*:rds:|\.rds\.amazonaws\.com/],
+  ['Cognito', /arn:aws[\w-]*:cognito-idp:|\.amazoncognito\.com/],
+  ['StaticSite', /arn:aws[\w-]*:cloudfront::|\.cloudfront\.net/],
+];
+
+const KEY_TYPES: Array<[ResourceType, RegExp]> = [
+  ['Function', /function|lambda|handler/i],
+  ['Api', /api|graphql|router/i],
+  ['Dynamo', /dynamo|table/i],
+  ['Bucket', /bucket|storage/i],
+  ['Queue', /queue/i],
+  ['Topic', /topic|bus/i],
+  ['Postgres', /postgres|database|\bdb\b|rds/i],
+  ['Cognito', /auth|cognito|userpool/i],
+  ['StaticSite', /site|web|frontend|cdn|distribution/i],
+];
+
+function stagePath(workspaceRoot: string, stage: string): string {
+  return join(SSTConfig.getStageOutputsDir(workspaceRoot), `${encodeURIComponent(stage)}.json`);
+}
+
+/**
+ * Copy .sst/outputs.json to .sst/outputs/<stage>.json after a successful deploy.
+ * Returns false if SST did not write any outputs.
+ */
+export function saveStageOutputs(workspaceRoot: string, stage: string): boolean {
+  const outputsPath = SSTConfig.getOutputsPath(workspaceRoot);
+  if (!existsSync(outputsPath)) return false;
+
+  mkdirSync(SSTConfig.getStageOutputsDir(workspaceRoot), { recursive: true });
+  copyFileSync(outputsPath, stagePath(workspaceRoot, stage));
+  return true;
+}
+
+/**
+ * Stages with saved outputs
+ */
+export function listOutputStages(workspaceRoot: string): string[] {
+  const dir = SSTConfig.getStageOutputsDir(workspaceRoot);
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .map(file => decodeURIComponent(file.slice(0, -'.json'.length)))
+    .sort();
+}
+
+/**
+ * Read a stage's saved outputs, or the last deploy's outputs when `stage` is null.
+ * Returns null if there is no such file.
+ */
+export function readStageOutputs(workspaceRoot: string, stage: string | null): { outputs: Record<string, unknown>; path: string } | null {
+  const path = stage === null ? SSTConfig.getOutputsPath(workspaceRoot) : stagePath(workspaceRoot, stage);
+  if (!existsSync(path)) return null;
+
+  try {
+    return { outputs: JSON.parse(readFileSync(path, 'utf8')), path };
+  } catch (error) {
+    throw new Error(`Failed to parse ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export function classifyOutput(key: string, value: unknown): ResourceType {
+  const text = typeof value === 'string' ? value : JSON.stringify(value) ?? '';
+  for (const [type, pattern] of VALUE_TYPES) {
+    if (pattern.test(text)) return type;
+  }
+  for (const [type, pattern] of KEY_TYPES) {
+    if (pattern.test(key)) return type;
+  }
+  return 'Other';
+}
+
+/**
+ * Split nested plain objects into dotted keys; arrays and scalars are leaves
+ */
+export function flattenOutputs(outputs: Record<string, unknown>, prefix = ''): Array<[string, unknown]> {
+  const entries: Array<[string, unknown]> = [];
+  for (const [key, value] of Object.entries(outputs)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      entries.push(...flattenOutputs(value as Record<string, unknown>, path));
+    } else {
+      entries.push([path, value]);
+    }
+  }
+  return entries;
+}
+
+/**
+ * Group outputs by resource type and pull out every URL and ARN
+ */
+export function buildInventory(outputs: Record<string, unknown>, stage: string | null, updatedAt: Date | null): Inventory {
+  const inventory: Inventory = {
+    stage,
+    updatedAt: updatedAt?.toISOString() ?? null,
+    resources: {},
+    urls: [],
+    arns: [],
+  };
+
+  for (const [key, value] of flattenOutputs(outputs)) {
+    const text = typeof value === 'string' ? value : JSON.stringify(value) ?? '';
+    const item: InventoryItem = {
+      key,
+      value,
+      urls: text.match(URL_PATTERN) ?? [],
+      arns: text.match(ARN_PATTERN) ?? [],
+    };
+    const type = classifyOutput(key, value);
+    (inventory.resources[type] ??= []).push(item);
+    inventory.urls.push(...item.urls);
+    inventory.arns.push(...item.arns);
+  }
+
+  return inventory;
+}
+
+/**
+ * Compare two inventories output by output
+ */
+export function diffInventories(from: Inventory, to: Inventory): InventoryDiff {
+  const index = (inventory: Inventory) => {
+    const items = new Map<string, { item: InventoryItem; type: ResourceType }>();
+    for (const [type, list] of Object.entries(inventory.resources) as Array<[ResourceType, InventoryItem[]]>) {
+      for (const item of list) items.set(item.key, { item, type });
+    }
+    return items;
+  };
+
+  const before = index(from);
+  const after = index(to);
+  const diff: InventoryDiff = {
+    from: from.stage ?? 'last deploy',
+    to: to.stage ?? 'last deploy',
+    added: [],
+    removed: [],
+    changed: [],
+    unchanged: 0,
+  };
+
+  for (const [key, { item, type }] of after) {
+    const previous = before.get(key);
+    if (!previous) {
+      diff.added.push({ ...item, type });
+    } else if (JSON.stringify(previous.item.value) !== JSON.stringify(item.value)) {
+      diff.changed.push({ key, type, from: previous.item.value, to: item.value });
+    } else {
+      diff.unchanged++;
+    }
+  }
+  for (const [key, { item, type }] of before) {
+    if (!after.has(key)) diff.removed.push({ ...item, type });
+  }
+
+  return diff;
+}
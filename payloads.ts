@@ -0,0 +1,149 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { SSTConfig } from './config.js';
+
+/**
+ * Event templates for common Lambda triggers, trimmed to the fields handlers usually read
+ */
+export const PAYLOAD_TEMPLATES: Record<string, unknown> = {
+  'api-gateway-v2': {
+    version: '2.0',
+    routeKey: 'GET /',
+    rawPath: '/',
+    rawQueryString: '',
+    headers: { 'content-type': 'application/json' },
+    requestContext: {
+      http: { method: 'GET', path: '/', protocol: 'HTTP/1.1', sourceIp: '127.0.0.1', userAgent: 'sst-mcp' },
+      requestId: 'test-request',
+      stage: '$default',
+    },
+    body: null,
+    isBase64Encoded: false,
+  },
+  'api-gateway-v1': {
+    resource: '/',
+    path: '/',
+    httpMethod: 'GET',
+    headers: { 'content-type': 'application/json' },
+    queryStringParameters: null,
+    pathParameters: null,
+    requestContext: { requestId: 'test-request', stage: 'test', identity: { sourceIp: '127.0.0.1' } },
+    body: null,
+    isBase64Encoded: false,
+  },
+  sqs: {
+    Records: [
+      {
+        messageId: '00000000-0000-0000-0000-000000000000',
+        receiptHandle: 'test-receipt',
+        body: '{}',
+        attributes: { ApproximateReceiveCount: '1', SentTimestamp: '0' },
+        messageAttributes: {},
+        eventSource: 'aws:sqs',
+        eventSourceARN: 'arn:aws:sqs:us-east-1:000000000000:test-queue',
+        awsRegion: 'us-east-1',
+      },
+    ],
+  },
+  s3: {
+    Records: [
+      {
+        eventVersion: '2.1',
+        eventSource: 'aws:s3',
+        awsRegion: 'us-east-1',
+        eventName: 'ObjectCreated:Put',
+        s3: {
+          bucket: { name: 'test-bucket', arn: 'arn:aws:s3:::test-bucket' },
+          object: { key: 'test/key.json', size: 0 },
+        },
+      },
+    ],
+  },
+  sns: {
+    Records: [
+      {
+        EventSource: 'aws:sns',
+        Sns: {
+          MessageId: '00000000-0000-0000-0000-000000000000',
+          TopicArn: 'arn:aws:sns:us-east-1:000000000000:test-topic',
+          Subject: null,
+          Message: '{}',
+          MessageAttributes: {},
+        },
+      },
+    ],
+  },
+  eventbridge: {
+    version: '0',
+    id: '00000000-0000-0000-0000-000000000000',
+    'detail-type': 'test',
+    source: 'sst-mcp.test',
+    account: '000000000000',
+    region: 'us-east-1',
+    resources: [],
+    detail: {},
+  },
+  schedule: {
+    version: '0',
+    id: '00000000-0000-0000-0000-000000000000',
+    'detail-type': 'Scheduled Event',
+    source: 'aws.events',
+    account: '000000000000',
+    region: 'us-east-1',
+    resources: ['arn:aws:events:us-east-1:000000000000:rule/test'],
+    detail: {},
+  },
+};
+
+const FIXTURE_NAME = /^[\w.-]+$/;
+
+function fixturePath(workspaceRoot: string, name: string): string {
+  if (!FIXTURE_NAME.test(name)) {
+    throw new Error(`Invalid payload name "${name}": use letters, digits, ".", "_" and "-"`);
+  }
+  return join(SSTConfig.getPayloadsDir(workspaceRoot), `${name}.json`);
+}
+
+/**
+ * Save a named payload for later invocations. Returns the file path.
+ */
+export function savePayload(workspaceRoot: string, name: string, payload: unknown): string {
+  const path = fixturePath(workspaceRoot, name);
+  mkdirSync(SSTConfig.getPayloadsDir(workspaceRoot), { recursive: true });
+  writeFileSync(path, JSON.stringify(payload, null, 2) + '\n', 'utf8');
+  return path;
+}
+
+/**
+ * Saved payload names, sorted
+ */
+export function listPayloads(workspaceRoot: string): string[] {
+  const dir = SSTConfig.getPayloadsDir(workspaceRoot);
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .map(file => file.slice(0, -'.json'.length))
+    .sort();
+}
+
+/**
+ * Look up a payload by name: saved fixtures first, then built-in templates
+ */
+export function loadPayload(workspaceRoot: string, name: string): unknown {
+  const path = fixturePath(workspaceRoot, name);
+  if (existsSync(path)) {
+    try {
+      return JSON.parse(readFileSync(path, 'utf8'));
+    } catch (error) {
+      throw new Error(`Failed to parse payload ${path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  if (Object.hasOwn(PAYLOAD_TEMPLATES, name)) {
+    return PAYLOAD_TEMPLATES[name];
+  }
+
+  const saved = listPayloads(workspaceRoot);
+  throw new Error(
+    `Payload "${name}" not found. Saved: ${saved.join(', ') || 'none'}. Templates: ${Object.keys(PAYLOAD_TEMPLATES).join(', ')}`
+  );
+}
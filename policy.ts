@@ -0,0 +1,162 @@
+import { createHash, randomBytes } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+import { SSTConfig } from './config.js';
+
+// Tools checked against the policy before they run
+export const POLICY_TOOLS = [
+  'sst-deploy',
+  'remove-sst-stage',
+  'sst-restart-for-infra',
+  'sst-secret-set',
+  'sst-secret-get',
+  'sst-secret-list',
+  'sst-secret-remove',
+  'sst-secret-load',
+  'sst-secret-unload',
+  'sst-secret-diff',
+];
+
+// Read-only tools are only subject to allowedTools, never to confirmation
+const READ_ONLY_TOOLS = ['sst-secret-get', 'sst-secret-list', 'sst-secret-diff'];
+
+export interface StagePolicy {
+  protected: boolean;
+  /** Tools that may act on the stage; omitted means every policy tool */
+  allowedTools?: string[];
+  /** Defaults to true for protected stages */
+  requireConfirmation?: boolean;
+}
+
+/**
+ * Contents of .sst/mcp-policy.json. Stage keys may use `*` as a wildcard.
+ */
+export interface McpPolicy {
+  stages: Record<string, StagePolicy>;
+}
+
+export interface PolicyDecision {
+  stage: string;
+  /** The policy key that matched, e.g. "prod*" */
+  matched: string;
+  requireConfirmation: boolean;
+}
+
+interface PendingConfirmation {
+  tool: string;
+  workspaceRoot: string;
+  stage: string;
+  argsHash: string;
+  expiresAt: number;
+}
+
+/**
+ * Read the workspace policy. Returns null when there is no policy file.
+ */
+export function loadPolicy(workspaceRoot: string): McpPolicy | null {
+  const policyPath = SSTConfig.getPolicyPath(workspaceRoot);
+  if (!existsSync(policyPath)) return null;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(policyPath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Invalid policy file ${policyPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const stages = (parsed as { stages?: unknown })?.stages;
+  if (!stages || typeof stages !== 'object' || Array.isArray(stages)) {
+    throw new Error(`Invalid policy file ${policyPath}: "stages" must be an object`);
+  }
+
+  for (const [key, value] of Object.entries(stages as Record<string, unknown>)) {
+    const stagePolicy = value as Partial<StagePolicy> | null;
+    if (!stagePolicy || typeof stagePolicy !== 'object' || typeof stagePolicy.protected !== 'boolean') {
+      throw new Error(`Invalid policy file ${policyPath}: stages.${key}.protected must be a boolean`);
+    }
+    if (stagePolicy.allowedTools !== undefined && !Array.isArray(stagePolicy.allowedTools)) {
+      throw new Error(`Invalid policy file ${policyPath}: stages.${key}.allowedTools must be an array`);
+    }
+  }
+
+  return parsed as McpPolicy;
+}
+
+function matchesStage(pattern: string, stage: string): boolean {
+  const regex = new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+  return regex.test(stage);
+}
+
+/**
+ * Check a tool call against the policy. Throws if the tool is not allowed on
+ * the stage; returns null if the stage is not protected.
+ */
+export function checkPolicy(policy: McpPolicy | null, tool: string, stage: string): PolicyDecision | null {
+  if (!policy) return null;
+
+  // An exact stage name wins over wildcard patterns
+  const entries = Object.entries(policy.stages);
+  const match = entries.find(([key]) => key === stage) ?? entries.find(([key]) => key.includes('*') && matchesStage(key, stage));
+  if (!match || !match[1].protected) return null;
+
+  const [matched, stagePolicy] = match;
+  if (stagePolicy.allowedTools && !stagePolicy.allowedTools.includes(tool)) {
+    throw new Error(
+      `Policy forbids ${tool} on protected stage "${stage}" (allowed: ${stagePolicy.allowedTools.join(', ') || 'none'})`
+    );
+  }
+
+  return {
+    stage,
+    matched,
+    requireConfirmation: (stagePolicy.requireConfirmation ?? true) && !READ_ONLY_TOOLS.includes(tool),
+  };
+}
+
+/**
+ * Single-use tokens that confirm a guarded call. A token is bound to the
+ * tool, workspace, stage and arguments it was issued for.
+ */
+export class ConfirmationStore {
+  private pending = new Map<string, PendingConfirmation>();
+
+  static hashArgs(args: Record<string, unknown>): string {
+    const { confirmationToken: _token, async: _async, ...rest } = args;
+    const sorted = Object.keys(rest).sort().map(key => [key, rest[key]]);
+    return createHash('sha256').update(JSON.stringify(sorted)).digest('hex');
+  }
+
+  issue(tool: string, workspaceRoot: string, stage: string, args: Record<string, unknown>): { token: string; expiresAt: Date } {
+    this.prune();
+    const token = randomBytes(4).toString('hex');
+    const expiresAt = Date.now() + SSTConfig.CONFIRMATION_TTL_MS;
+    this.pending.set(token, { tool, workspaceRoot, stage, argsHash: ConfirmationStore.hashArgs(args), expiresAt });
+    return { token, expiresAt: new Date(expiresAt) };
+  }
+
+  /**
+   * Use up a token. Throws if it is unknown, expired or was issued for a different call.
+   */
+  consume(token: string, tool: string, workspaceRoot: string, stage: string, args: Record<string, unknown>): void {
+    this.prune();
+    const pending = this.pending.get(token);
+    if (!pending) {
+      throw new Error('Confirmation token is invalid or has expired. Call the tool again without confirmationToken to get a new one.');
+    }
+    if (
+      pending.tool !== tool ||
+      pending.workspaceRoot !== workspaceRoot ||
+      pending.stage !== stage ||
+      pending.argsHash !== ConfirmationStore.hashArgs(args)
+    ) {
+      throw new Error(`Confirmation token was issued for a different call (${pending.tool} on stage "${pending.stage}")`);
+    }
+    this.pending.delete(token);
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [token, pending] of this.pending) {
+      if (pending.expiresAt <= now) this.pending.delete(token);
+    }
+  }
+}
@@ -0,0 +1,39 @@
+import psTree from 'ps-tree';
+
+/**
+ * Send a signal to a process and all of its descendants.
+ * Resolves with the PIDs that were signalled successfully.
+ */
+export function killProcessAndChildren(pid: number, signal: NodeJS.Signals = 'SIGTERM'): Promise<number[]> {
+  return new Promise((resolve, reject) => {
+    psTree(pid, (err, children) => {
+      if (err) {
+        return reject(err);
+      }
+      const pids = [pid, ...children.map(p => parseInt(p.PID, 10))];
+      const killed: number[] = [];
+      pids.forEach(p => {
+        try {
+          process.kill(p, signal);
+          killed.push(p);
+        } catch (e) {
+          // Ignore
+        }
+      });
+      resolve(killed);
+    });
+  });
+}
+
+/**
+ * Whether a process with this PID exists (signal 0 only checks)
+ */
+export function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means it exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
@@ -0,0 +1,191 @@
+import { existsSync, readFileSync, statSync } from 'fs';
+import { SSTConfig } from './config.js';
+import { isSecretEnv, parseEnv } from './env-file.js';
+import { listEnvProfiles } from './env-profiles.js';
+import { listStageSecrets } from './secrets.js';
+
+/**
+ * Contents of .sst/mcp-redaction.json. Each pattern is a regular expression
+ * whose whole match is masked; use a lookbehind to keep a label, e.g.
+ * "(?<=STRIPE_KEY=)\\S+".
+ */
+export interface RedactionSettings {
+  patterns: string[];
+}
+
+export const REDACTED = '[REDACTED]';
+
+const BUILTIN_PATTERNS = [
+  // AWS access key IDs
+  /\b(?:AKIA|ASIA)[A-Z0-9]{16}\b/g,
+  // AWS secret access keys, which are only recognisable next to their name
+  /(?<=aws_secret_access_key["']?\s*[:=]\s*["']?)[A-Za-z0-9/+]{40}/gi,
+  // JWTs
+  /\beyJ[\w-]+\.eyJ[\w-]+\.[\w-]+/g,
+  // Bearer tokens, keeping the scheme
+  /(?<=\bBearer\s+)[\w.~+/-]+=*/gi,
+];
+
+/**
+ * Read the workspace redaction patterns. Missing file means none.
+ */
+export function loadRedactionSettings(workspaceRoot: string): RedactionSettings {
+  const settingsPath = SSTConfig.getRedactionPath(workspaceRoot);
+  if (!existsSync(settingsPath)) return { patterns: [] };
+
+  let parsed: Partial<RedactionSettings>;
+  try {
+    parsed = JSON.parse(readFileSync(settingsPath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Invalid redaction file ${settingsPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const patterns = parsed?.patterns ?? [];
+  if (!Array.isArray(patterns) || patterns.some(pattern => typeof pattern !== 'string' || !pattern)) {
+    throw new Error(`Invalid redaction file ${settingsPath}: "patterns" must be an array of non-empty strings`);
+  }
+  for (const pattern of patterns) {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(pattern);
+    } catch (error) {
+      throw new Error(`Invalid redaction file ${settingsPath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (regex.test('')) {
+      throw new Error(`Invalid redaction file ${settingsPath}: pattern "${pattern}" matches an empty string`);
+    }
+  }
+
+  return { patterns };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+/**
+ * Masks secrets in text before it is logged or returned: known secret values,
+ * AWS keys, JWTs, bearer tokens and each workspace's own patterns. Values are
+ * learned from env.sh profiles, from the stage's secrets when sst dev or a
+ * deploy starts, and from the sst secret commands that run.
+ */
+export class Redactor {
+  private values = new Set<string>();
+  private valuePattern: RegExp | null = null;
+  private workspacePatterns = new Map<string, RegExp[]>();
+  // Modification times of the files last loaded per workspace, to skip unchanged ones
+  private loaded = new Map<string, string>();
+
+  /**
+   * Mask these values from now on. Short values are ignored: they are more
+   * likely to be ordinary words or numbers than secrets.
+   */
+  addValues(values: Iterable<string>): void {
+    let added = false;
+    for (const value of values) {
+      if (value.length < SSTConfig.REDACT_MIN_VALUE_LENGTH || this.values.has(value)) continue;
+      this.values.add(value);
+      added = true;
+    }
+    if (!added) return;
+
+    // Longest first, so a value containing another is masked whole
+    const sorted = [...this.values].sort((a, b) => b.length - a.length);
+    this.valuePattern = new RegExp(sorted.map(escapeRegExp).join('|'), 'g');
+  }
+
+  /**
+   * Pick up secret values from the workspace env.sh profiles and its
+   * redaction patterns. Cheap when nothing changed since the last call.
+   * Throws if the redaction file is invalid.
+   */
+  loadWorkspace(workspaceRoot: string): void {
+    const profiles = listEnvProfiles(workspaceRoot).filter(profile => profile.exists);
+    const settingsPath = SSTConfig.getRedactionPath(workspaceRoot);
+    const files = [...profiles.map(profile => profile.path), settingsPath].filter(file => existsSync(file));
+    const signature = files.map(file => `${file}:${statSync(file).mtimeMs}`).join('\n');
+    if (this.loaded.get(workspaceRoot) === signature) return;
+
+    const settings = loadRedactionSettings(workspaceRoot);
+    this.workspacePatterns.set(workspaceRoot, settings.patterns.map(pattern => new RegExp(pattern, 'g')));
+
+    for (const profile of profiles) {
+      const entries = parseEnv(readFileSync(profile.path, 'utf8'), { processEnvKeys: true }).entries;
+      this.addValues(entries.filter(entry => isSecretEnv(entry.key, entry.value)).map(entry => entry.value));
+    }
+
+    this.loaded.set(workspaceRoot, signature);
+  }
+
+  /**
+   * Learn a stage's secret values, and its fallback values, from `sst secret
+   * list` before sst dev or a deploy gets to print them. Values that could be
+   * read are kept even when the other list fails; the failure is then thrown.
+   */
+  async loadStageSecrets(workspaceRoot: string, stage: string | null, env?: NodeJS.ProcessEnv): Promise<void> {
+    const results = await Promise.allSettled([
+      listStageSecrets(workspaceRoot, { stage, env }),
+      listStageSecrets(workspaceRoot, { stage, fallback: true, env }),
+    ]);
+    for (const result of results) {
+      if (result.status === 'fulfilled') this.addValues(Object.values(result.value));
+    }
+    const failed = results.find(result => result.status === 'rejected');
+    if (failed) throw failed.reason;
+  }
+
+  redact(text: string): string {
+    let result = this.valuePattern ? text.replace(this.valuePattern, REDACTED) : text;
+    for (const pattern of BUILTIN_PATTERNS) {
+      result = result.replace(pattern, REDACTED);
+    }
+    for (const patterns of this.workspacePatterns.values()) {
+      for (const pattern of patterns) {
+        result = result.replace(pattern, REDACTED);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * A redacting filter for one output stream. Chunks are redacted a line at a
+   * time, so a value split across two chunks is still masked; the trailing
+   * partial line is held back until its newline arrives or flush().
+   */
+  lineBuffer(): { write(chunk: string): string; flush(): string } {
+    let pending = '';
+    return {
+      write: (chunk: string) => {
+        const text = pending + chunk;
+        const end = text.lastIndexOf('\n') + 1;
+        if (end === 0 && text.length < SSTConfig.REDACT_MAX_PENDING_CHARS) {
+          pending = text;
+          return '';
+        }
+        pending = end === 0 ? '' : text.slice(end);
+        return this.redact(end === 0 ? text : text.slice(0, end));
+      },
+      flush: () => {
+        const text = pending;
+        pending = '';
+        return this.redact(text);
+      },
+    };
+  }
+
+  /**
+   * Redact every string in a JSON-like value: plain objects, arrays and strings
+   */
+  redactDeep<T>(value: T): T {
+    if (typeof value === 'string') return this.redact(value) as T;
+    if (Array.isArray(value)) return value.map(item => this.redactDeep(item)) as T;
+    if (isPlainObject(value)) {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.redactDeep(item)])) as T;
+    }
+    return value;
+  }
+}
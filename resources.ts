@@ -0,0 +1,63 @@
+import { SSTConfig } from './config.js';
+
+export type SSTResourceKind = 'logs' | 'outputs' | 'env';
+
+interface SSTResourceDefinition {
+  kind: SSTResourceKind;
+  name: string;
+  description: string;
+  mimeType: string;
+  getPath: (workspaceRoot: string) => string;
+}
+
+/**
+ * Workspace files exposed as MCP resources under sst://{workspace}/{kind}
+ */
+export const SST_RESOURCES: readonly SSTResourceDefinition[] = [
+  {
+    kind: 'logs',
+    name: 'SST logs',
+    description: 'Output captured from sst dev, deploy and other SST commands (.sst/sst-mcp.log)',
+    mimeType: 'text/plain',
+    getPath: (workspaceRoot) => SSTConfig.getLogPath(workspaceRoot),
+  },
+  {
+    kind: 'outputs',
+    name: 'SST outputs',
+    description: 'Outputs of the last deploy (.sst/outputs.json)',
+    mimeType: 'application/json',
+    getPath: (workspaceRoot) => SSTConfig.getOutputsPath(workspaceRoot),
+  },
+  {
+    kind: 'env',
+    name: 'SST env.sh',
+    description: 'Environment variables loaded into sst dev (env.sh)',
+    mimeType: 'text/plain',
+    getPath: (workspaceRoot) => SSTConfig.getEnvPath(workspaceRoot),
+  },
+];
+
+/**
+ * Build the resource URI for a workspace file. The workspace root is
+ * percent-encoded so the absolute path fits in the authority component.
+ */
+export function buildResourceUri(workspaceRoot: string, kind: SSTResourceKind): string {
+  return `sst://${encodeURIComponent(workspaceRoot)}/${kind}`;
+}
+
+/**
+ * Parse an sst:// resource URI, returning null if it is not one of ours
+ */
+export function parseResourceUri(uri: string): { workspaceRoot: string; resource: SSTResourceDefinition } | null {
+  const match = uri.match(/^sst:\/\/([^/]+)\/([a-z]+)$/);
+  if (!match) return null;
+
+  const resource = SST_RESOURCES.find(r => r.kind === match[2]);
+  if (!resource) return null;
+
+  try {
+    return { workspaceRoot: decodeURIComponent(match[1]), resource };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,132 @@
+import { execFile } from 'child_process';
+import { existsSync, lstatSync } from 'fs';
+import { basename, isAbsolute, relative, resolve, sep } from 'path';
+import { envToRecord, formatEnvAssignment, parseEnv } from './env-file.js';
+import { getServerConfig } from './server-config.js';
+import { resolveSSTCommand } from './sst-command.js';
+
+// .env, .env.production, secrets.env
+const DOTENV_NAME = /^\.env(?:\..+)?$|.\.env$/;
+const GIT_TIMEOUT_MS = 5000;
+
+export interface SecretDiff {
+  onlyInStage: string[];
+  onlyInCompareTo: string[];
+  inBoth: string[];
+  /** Names set in both stages to different values; the values are not returned */
+  differentValues: string[];
+}
+
+/**
+ * Parse `sst secret list` output, which is dotenv lines under a `# app/stage` comment
+ */
+export function parseSecretList(output: string): Record<string, string> {
+  return envToRecord(parseEnv(output));
+}
+
+/**
+ * Run `sst secret list` outside the tool calls, for the stage (the default
+ * stage when null) or its fallback values
+ */
+export function listStageSecrets(
+  workspaceRoot: string,
+  { stage, fallback, env = process.env }: { stage: string | null; fallback?: boolean; env?: NodeJS.ProcessEnv }
+): Promise<Record<string, string>> {
+  const sst = resolveSSTCommand(workspaceRoot);
+  const args = [...sst.args, 'secret', 'list'];
+  if (fallback) args.push('--fallback');
+  if (stage) args.push('--stage', stage);
+
+  return new Promise((resolve, reject) => {
+    execFile(sst.command, args, { cwd: workspaceRoot, env, timeout: getServerConfig(workspaceRoot).commandTimeoutMs }, (error, stdout, stderr) => {
+      if (error) {
+        reject(new Error(`sst secret list${fallback ? ' --fallback' : ''} failed: ${stderr.trim() || error.message}`));
+        return;
+      }
+      resolve(parseSecretList(stdout));
+    });
+  });
+}
+
+/**
+ * The stage named by `--stage x` or `--stage=x` in sst arguments, or null
+ */
+export function stageFromArgs(args: string[]): string | null {
+  for (const [index, arg] of args.entries()) {
+    if (arg === '--stage') return args[index + 1] ?? null;
+    if (arg.startsWith('--stage=')) return arg.slice('--stage='.length) || null;
+  }
+  return null;
+}
+
+/**
+ * Compare the secrets of two stages by name
+ */
+export function diffSecrets(stage: Record<string, string>, compareTo: Record<string, string>): SecretDiff {
+  const names = Object.keys(stage).sort();
+  const otherNames = Object.keys(compareTo).sort();
+  const inBoth = names.filter(name => Object.hasOwn(compareTo, name));
+
+  return {
+    onlyInStage: names.filter(name => !Object.hasOwn(compareTo, name)),
+    onlyInCompareTo: otherNames.filter(name => !Object.hasOwn(stage, name)),
+    inBoth,
+    differentValues: inBoth.filter(name => stage[name] !== compareTo[name]),
+  };
+}
+
+/**
+ * Format secrets as a dotenv file that `sst secret load` reads back
+ */
+export function formatSecretsDotenv(secrets: Record<string, string>, header: string): string {
+  const lines = Object.keys(secrets).sort().map(name => formatEnvAssignment(name, secrets[name], false));
+  return [`# ${header}`, ...lines].join('\n') + '\n';
+}
+
+/**
+ * Resolve a dotenv file path relative to the workspace. Throws if it lies outside it.
+ */
+export function resolveSecretsFile(workspaceRoot: string, file: string, mustExist: boolean): string {
+  const resolved = resolve(workspaceRoot, file);
+  const fromRoot = relative(workspaceRoot, resolved);
+  if (!fromRoot || fromRoot === '..' || fromRoot.startsWith(`..${sep}`) || isAbsolute(fromRoot)) {
+    throw new Error(`file must be inside the workspace: ${file}`);
+  }
+  if (mustExist && !existsSync(resolved)) {
+    throw new Error(`File not found: ${resolved}`);
+  }
+  return resolved;
+}
+
+function isTrackedByGit(workspaceRoot: string, filePath: string): Promise<boolean> {
+  return new Promise(resolve => {
+    execFile('git', ['ls-files', '--error-unmatch', '--', relative(workspaceRoot, filePath)], { cwd: workspaceRoot, timeout: GIT_TIMEOUT_MS }, error => {
+      // Untracked, outside a repository, or git missing
+      resolve(!error);
+    });
+  });
+}
+
+/**
+ * Check that plaintext secrets may be written to a file: it must be named like a
+ * dotenv file and, if it exists, be a regular file that git does not track, and
+ * `overwrite` must be set. Throws otherwise.
+ */
+export async function checkSecretsTarget(workspaceRoot: string, filePath: string, overwrite: boolean): Promise<void> {
+  if (!DOTENV_NAME.test(basename(filePath))) {
+    throw new Error(`${filePath} is not a dotenv file; use a name like .env, .env.<stage> or <name>.env`);
+  }
+  // lstat, so a symlink pointing elsewhere is refused rather than followed
+  const stats = lstatSync(filePath, { throwIfNoEntry: false });
+  if (!stats) return;
+
+  if (!stats.isFile()) {
+    throw new Error(`${filePath} is not a regular file`);
+  }
+  if (!overwrite) {
+    throw new Error(`${filePath} already exists. Pass overwrite: true to replace it.`);
+  }
+  if (await isTrackedByGit(workspaceRoot, filePath)) {
+    throw new Error(`${filePath} is tracked by git; write the secrets to an untracked file instead`);
+  }
+}
@@ -0,0 +1,285 @@
+import { existsSync, readFileSync, statSync } from 'fs';
+import { homedir } from 'os';
+import { isAbsolute, join, normalize, sep } from 'path';
+
+/**
+ * Server settings that can be changed without editing the code. Each one is
+ * resolved from the built-in default, then the user config file, then the
+ * workspace .sst-mcp.json, then an environment variable; the last one set wins.
+ */
+export interface ServerConfig {
+  commandTimeoutMs: number;
+  deployTimeoutMs: number;
+  shellExecTimeoutMs: number;
+  jobWaitTimeoutMs: number;
+  rateLimitPerMinute: number;
+  defaultLogLines: number;
+  sstDevArgs: string[];
+  logFile: string;
+  logArchiveDir: string;
+  serverLogFile: string;
+  serverErrorLogFile: string;
+}
+
+export type ConfigKey = keyof ServerConfig;
+
+export type ConfigSource = 'default' | 'user' | 'workspace' | 'env';
+
+interface ConfigOption<T> {
+  type: 'integer' | 'string' | 'string[]';
+  default: T;
+  /** Environment variable that overrides every file */
+  env: string;
+  description: string;
+  /** Read once when the server starts, for every workspace, so a workspace file cannot set it */
+  serverOnly?: boolean;
+  /** A path the server writes, renames and deletes, so it must stay inside the workspace .sst directory */
+  insideSSTDir?: boolean;
+}
+
+export const USER_CONFIG_FILE = '.sst-mcp.json';
+export const WORKSPACE_CONFIG_FILE = '.sst-mcp.json';
+
+// Same as SSTConfig.SST_DIR; config.ts imports this module, so it cannot be imported here
+const SST_DIR = '.sst';
+
+export const CONFIG_SCHEMA: { [K in ConfigKey]: ConfigOption<ServerConfig[K]> } = {
+  commandTimeoutMs: {
+    type: 'integer',
+    default: 120000,
+    env: 'SST_MCP_COMMAND_TIMEOUT_MS',
+    description: 'Time limit for sst commands such as diff, refresh and secret, in milliseconds',
+  },
+  deployTimeoutMs: {
+    type: 'integer',
+    default: 300000,
+    env: 'SST_MCP_DEPLOY_TIMEOUT_MS',
+    description: 'Time limit for sst-deploy and sst-restart-for-infra, in milliseconds',
+  },
+  shellExecTimeoutMs: {
+    type: 'integer',
+    default: 60000,
+    env: 'SST_MCP_SHELL_EXEC_TIMEOUT_MS',
+    description: 'Time limit for sst-shell-exec, in milliseconds',
+  },
+  jobWaitTimeoutMs: {
+    type: 'integer',
+    default: 60000,
+    env: 'SST_MCP_JOB_WAIT_TIMEOUT_MS',
+    description: 'Default wait for wait-sst-job, in milliseconds',
+  },
+  rateLimitPerMinute: {
+    type: 'integer',
+    default: 30,
+    env: 'SST_MCP_RATE_LIMIT_PER_MINUTE',
+    description: 'Tool calls allowed per minute',
+    serverOnly: true,
+  },
+  defaultLogLines: {
+    type: 'integer',
+    default: 50,
+    env: 'SST_MCP_DEFAULT_LOG_LINES',
+    description: 'Lines returned by get-sst-logs, get-sst-deployment and the job tools when `lines` is omitted',
+  },
+  sstDevArgs: {
+    type: 'string[]',
+    default: ['dev', '--mode=mono'],
+    env: 'SST_MCP_SST_DEV_ARGS',
+    description: 'Arguments after `sst` for the dev process (space-separated in the environment variable)',
+  },
+  logFile: {
+    type: 'string',
+    default: '.sst/sst-mcp.log',
+    env: 'SST_MCP_LOG_FILE',
+    description: 'sst dev log, relative to the workspace root and inside .sst/',
+    insideSSTDir: true,
+  },
+  logArchiveDir: {
+    type: 'string',
+    default: '.sst/logs',
+    env: 'SST_MCP_LOG_ARCHIVE_DIR',
+    description: 'Directory rotated logs are moved to, relative to the workspace root and inside .sst/',
+    insideSSTDir: true,
+  },
+  serverLogFile: {
+    type: 'string',
+    default: 'mcp-server.log',
+    env: 'SST_MCP_SERVER_LOG_FILE',
+    description: 'MCP server log, relative to the directory the server runs in',
+    serverOnly: true,
+  },
+  serverErrorLogFile: {
+    type: 'string',
+    default: 'mcp-server-error.log',
+    env: 'SST_MCP_SERVER_ERROR_LOG_FILE',
+    description: 'MCP server error log, relative to the directory the server runs in',
+    serverOnly: true,
+  },
+};
+
+const CONFIG_KEYS = Object.keys(CONFIG_SCHEMA) as ConfigKey[];
+
+/**
+ * Effective settings and, for each one, the layer and file or variable it came from
+ */
+export interface EffectiveConfig {
+  values: ServerConfig;
+  sources: Record<ConfigKey, { source: ConfigSource; origin: string | null }>;
+  userConfigPath: string;
+  workspaceConfigPath: string | null;
+}
+
+export function getUserConfigPath(): string {
+  return join(homedir(), USER_CONFIG_FILE);
+}
+
+export function getWorkspaceConfigPath(workspaceRoot: string): string {
+  return join(workspaceRoot, WORKSPACE_CONFIG_FILE);
+}
+
+function describeType(option: ConfigOption<unknown>): string {
+  if (option.insideSSTDir) return `a relative path inside ${SST_DIR}/`;
+  switch (option.type) {
+    case 'integer':
+      return 'a positive integer';
+    case 'string':
+      return 'a non-empty string';
+    default:
+      return 'a non-empty array of strings';
+  }
+}
+
+/**
+ * True for a relative path below .sst/, e.g. ".sst/logs". Absolute paths,
+ * ".." segments and .sst itself are rejected.
+ */
+function isInsideSSTDir(value: string): boolean {
+  if (isAbsolute(value)) return false;
+  const segments = normalize(value).split(sep).filter(Boolean);
+  return segments.length > 1 && segments[0] === SST_DIR && !segments.includes('..');
+}
+
+function isValid(option: ConfigOption<unknown>, value: unknown): boolean {
+  if (option.insideSSTDir && !(typeof value === 'string' && isInsideSSTDir(value))) return false;
+  switch (option.type) {
+    case 'integer':
+      return Number.isInteger(value) && (value as number) > 0;
+    case 'string':
+      return typeof value === 'string' && value.length > 0;
+    default:
+      return Array.isArray(value) && value.length > 0 && value.every(item => typeof item === 'string');
+  }
+}
+
+/**
+ * Check a parsed config file against the schema. `$schema` is allowed for editors.
+ */
+export function validateConfigFile(parsed: unknown, filePath: string, layer: 'user' | 'workspace'): Partial<ServerConfig> {
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`Invalid config file ${filePath}: expected a JSON object`);
+  }
+
+  for (const [key, value] of Object.entries(parsed)) {
+    if (key === '$schema') continue;
+    const option = CONFIG_SCHEMA[key as ConfigKey] as ConfigOption<unknown> | undefined;
+    if (!option) {
+      throw new Error(`Invalid config file ${filePath}: unknown setting "${key}" (known: ${CONFIG_KEYS.join(', ')})`);
+    }
+    if (!isValid(option, value)) {
+      throw new Error(`Invalid config file ${filePath}: "${key}" must be ${describeType(option)}`);
+    }
+    if (layer === 'workspace' && option.serverOnly) {
+      throw new Error(`Invalid config file ${filePath}: "${key}" applies to the whole server; set it in ${getUserConfigPath()} or ${option.env}`);
+    }
+  }
+
+  const { $schema: _schema, ...settings } = parsed as Record<string, unknown>;
+  return settings as Partial<ServerConfig>;
+}
+
+// Parsed files keyed by path, reused until the file changes
+const fileCache = new Map<string, { mtimeMs: number; settings: Partial<ServerConfig> }>();
+
+function readConfigFile(filePath: string, layer: 'user' | 'workspace'): Partial<ServerConfig> {
+  if (!existsSync(filePath)) return {};
+
+  const mtimeMs = statSync(filePath).mtimeMs;
+  const cached = fileCache.get(filePath);
+  if (cached && cached.mtimeMs === mtimeMs) return cached.settings;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Invalid config file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const settings = validateConfigFile(parsed, filePath, layer);
+  fileCache.set(filePath, { mtimeMs, settings });
+  return settings;
+}
+
+function readEnvSetting(option: ConfigOption<unknown>, raw: string): unknown {
+  let value: unknown;
+  switch (option.type) {
+    case 'integer':
+      value = /^\d+$/.test(raw.trim()) ? Number(raw.trim()) : NaN;
+      break;
+    case 'string':
+      value = raw;
+      break;
+    default:
+      value = raw.split(/\s+/).filter(Boolean);
+  }
+  if (!isValid(option, value)) {
+    throw new Error(`Invalid environment variable ${option.env}: must be ${describeType(option)}`);
+  }
+  return value;
+}
+
+/**
+ * Resolve every setting through the layers. Without a workspace, only the
+ * defaults, the user file and the environment apply. Throws on an invalid
+ * file or variable.
+ */
+export function loadServerConfig(workspaceRoot?: string): EffectiveConfig {
+  const userConfigPath = getUserConfigPath();
+  const workspaceConfigPath = workspaceRoot ? getWorkspaceConfigPath(workspaceRoot) : null;
+  const layers: Array<{ source: ConfigSource; origin: string; settings: Partial<ServerConfig> }> = [
+    { source: 'user', origin: userConfigPath, settings: readConfigFile(userConfigPath, 'user') },
+  ];
+  // A workspace in the home directory shares the user file; read it once, as the user layer
+  if (workspaceConfigPath && workspaceConfigPath !== userConfigPath) {
+    layers.push({ source: 'workspace', origin: workspaceConfigPath, settings: readConfigFile(workspaceConfigPath, 'workspace') });
+  }
+
+  const values: Record<string, unknown> = {};
+  const sources = {} as EffectiveConfig['sources'];
+  for (const key of CONFIG_KEYS) {
+    const option = CONFIG_SCHEMA[key] as ConfigOption<unknown>;
+    values[key] = option.default;
+    sources[key] = { source: 'default', origin: null };
+
+    for (const layer of layers) {
+      if (layer.settings[key] !== undefined) {
+        values[key] = layer.settings[key];
+        sources[key] = { source: layer.source, origin: layer.origin };
+      }
+    }
+
+    const raw = process.env[option.env];
+    if (raw !== undefined && raw !== '') {
+      values[key] = readEnvSetting(option, raw);
+      sources[key] = { source: 'env', origin: option.env };
+    }
+  }
+
+  return { values: values as unknown as ServerConfig, sources, userConfigPath, workspaceConfigPath };
+}
+
+/**
+ * Effective settings for a workspace, or for the whole server without one
+ */
+export function getServerConfig(workspaceRoot?: string): ServerConfig {
+  return loadServerConfig(workspaceRoot).values;
+}
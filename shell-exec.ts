@@ -0,0 +1,147 @@
+import { existsSync, readFileSync, statSync } from 'fs';
+import { basename, isAbsolute, relative, resolve, sep } from 'path';
+import { SSTConfig } from './config.js';
+import { isValidEnvKey } from './env-file.js';
+
+/**
+ * Contents of .sst/mcp-shell-policy.json. Entries are executable names
+ * ("aws") or paths ("./scripts/seed.sh"); deny wins over allow.
+ */
+export interface ShellPolicy {
+  /** When set, only these executables may run */
+  allow?: string[];
+  deny?: string[];
+}
+
+// Unquoted characters that only mean something to a shell, which is never used here
+const SHELL_OPERATORS = '|&;<>()`';
+
+/**
+ * Split a command string into argv the way a POSIX shell would, without
+ * expanding anything: whitespace separates words, single quotes are literal,
+ * double quotes honour \" \\ \$ \`, and a backslash escapes the next character.
+ * Throws on unterminated quotes and on unquoted shell operators.
+ */
+export function tokenizeCommand(command: string): string[] {
+  const argv: string[] = [];
+  let word = '';
+  let inWord = false;
+
+  for (let idx = 0; idx < command.length; idx++) {
+    const ch = command[idx];
+
+    if (/\s/.test(ch)) {
+      if (inWord) argv.push(word);
+      word = '';
+      inWord = false;
+      continue;
+    }
+    inWord = true;
+
+    if (ch === "'") {
+      const close = command.indexOf("'", idx + 1);
+      if (close < 0) throw new Error('Unterminated single quote in command');
+      word += command.slice(idx + 1, close);
+      idx = close;
+    } else if (ch === '"') {
+      let closed = false;
+      for (idx++; idx < command.length; idx++) {
+        const inner = command[idx];
+        if (inner === '\\' && '"\\$`'.includes(command[idx + 1] ?? '')) {
+          word += command[++idx];
+        } else if (inner === '"') {
+          closed = true;
+          break;
+        } else {
+          word += inner;
+        }
+      }
+      if (!closed) throw new Error('Unterminated double quote in command');
+    } else if (ch === '\\') {
+      if (idx + 1 < command.length) word += command[++idx];
+    } else if (SHELL_OPERATORS.includes(ch) || (ch === '$' && command[idx + 1] === '(')) {
+      throw new Error(
+        `Shell operator "${ch === '$' ? '$(' : ch}" is not supported: the command runs without a shell. Quote it to pass it as an argument, or run a script.`
+      );
+    } else {
+      word += ch;
+    }
+  }
+
+  if (inWord) argv.push(word);
+  return argv;
+}
+
+/**
+ * Read the workspace shell policy. Returns null when there is no policy file.
+ */
+export function loadShellPolicy(workspaceRoot: string): ShellPolicy | null {
+  const policyPath = SSTConfig.getShellPolicyPath(workspaceRoot);
+  if (!existsSync(policyPath)) return null;
+
+  let parsed: ShellPolicy;
+  try {
+    parsed = JSON.parse(readFileSync(policyPath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Invalid shell policy file ${policyPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  for (const key of ['allow', 'deny'] as const) {
+    const list = parsed?.[key];
+    if (list !== undefined && (!Array.isArray(list) || list.some(entry => typeof entry !== 'string'))) {
+      throw new Error(`Invalid shell policy file ${policyPath}: "${key}" must be an array of strings`);
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Throw if the policy does not let `executable` run. A deny entry also matches
+ * the file name, so "rm" denies "/bin/rm"; an allow entry must match exactly,
+ * so allowing "aws" does not allow "./aws".
+ */
+export function checkExecutable(policy: ShellPolicy | null, executable: string): void {
+  if (!policy) return;
+
+  if (policy.deny?.some(entry => entry === executable || entry === basename(executable))) {
+    throw new Error(`Shell policy denies "${executable}"`);
+  }
+  if (policy.allow && !policy.allow.includes(executable)) {
+    throw new Error(`Shell policy does not allow "${executable}" (allowed: ${policy.allow.join(', ') || 'none'})`);
+  }
+}
+
+/**
+ * Resolve a working directory relative to the workspace. Throws if it does
+ * not exist or lies outside the workspace.
+ */
+export function resolveShellCwd(workspaceRoot: string, cwd?: string): string {
+  if (!cwd) return workspaceRoot;
+
+  const resolved = resolve(workspaceRoot, cwd);
+  const fromRoot = relative(workspaceRoot, resolved);
+  if (fromRoot === '..' || fromRoot.startsWith(`..${sep}`) || isAbsolute(fromRoot)) {
+    throw new Error(`cwd must be inside the workspace: ${cwd}`);
+  }
+  if (!existsSync(resolved) || !statSync(resolved).isDirectory()) {
+    throw new Error(`cwd is not a directory: ${resolved}`);
+  }
+  return resolved;
+}
+
+/**
+ * Check extra environment variables: valid names and string values only
+ */
+export function validateShellEnv(env: Record<string, unknown> = {}): Record<string, string> {
+  const invalid = Object.keys(env).filter(key => !isValidEnvKey(key));
+  if (invalid.length > 0) {
+    throw new Error(`Invalid environment variable name(s): ${invalid.join(', ')}`);
+  }
+  for (const [key, value] of Object.entries(env)) {
+    if (typeof value !== 'string') {
+      throw new Error(`Environment variable ${key} must be a string`);
+    }
+  }
+  return env as Record<string, string>;
+}
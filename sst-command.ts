@@ -0,0 +1,154 @@
+import { existsSync, readFileSync } from 'fs';
+import { dirname, join, relative } from 'path';
+import { SSTConfig } from './config.js';
+
+export type PackageManager = 'npm' | 'pnpm' | 'yarn' | 'bun';
+
+/**
+ * How to run sst in a workspace: the local binary when there is one, else
+ * through the workspace's package manager
+ */
+export interface SSTCommand {
+  /** Executable to spawn */
+  command: string;
+  /** Arguments that go before the sst arguments */
+  args: string[];
+  packageManager: PackageManager;
+  /** `packageManager` field, lockfile, or npm when neither was found */
+  packageManagerSource: 'packageManager' | 'lockfile' | 'default';
+  /** The package.json or lockfile the package manager was read from */
+  packageManagerFile: string | null;
+  /** node_modules/.bin/sst in the workspace or a parent (monorepos), or null */
+  binaryPath: string | null;
+  detectedAt: string;
+}
+
+const PACKAGE_MANAGERS: PackageManager[] = ['npm', 'pnpm', 'yarn', 'bun'];
+
+// Checked in this order in each directory
+const LOCKFILES: Array<[string, PackageManager]> = [
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['yarn.lock', 'yarn'],
+  ['bun.lock', 'bun'],
+  ['bun.lockb', 'bun'],
+  ['package-lock.json', 'npm'],
+  ['npm-shrinkwrap.json', 'npm'],
+];
+
+// Used when there is no node_modules/.bin/sst. Each one only runs the sst the
+// workspace installed and never downloads whatever version is latest.
+const EXEC_COMMANDS: Record<PackageManager, string[]> = {
+  npm: [SSTConfig.NPX_COMMAND, '--no', SSTConfig.SST_COMMAND],
+  pnpm: ['pnpm', 'exec', SSTConfig.SST_COMMAND],
+  // Also works with Plug'n'Play, which has no node_modules/.bin
+  yarn: ['yarn', SSTConfig.SST_COMMAND],
+  // Not bunx, which installs packages it cannot find
+  bun: ['bun', 'run', SSTConfig.SST_COMMAND],
+};
+
+const cache = new Map<string, SSTCommand>();
+
+/**
+ * The workspace root and its parents, nearest first
+ */
+function ancestors(workspaceRoot: string): string[] {
+  const dirs = [workspaceRoot];
+  for (let dir = dirname(workspaceRoot); dir !== dirs[dirs.length - 1]; dir = dirname(dir)) {
+    dirs.push(dir);
+  }
+  return dirs;
+}
+
+function readPackageManagerField(packageJsonPath: string): PackageManager | null {
+  if (!existsSync(packageJsonPath)) return null;
+  try {
+    // e.g. "pnpm@9.1.0+sha512.…"
+    const field = JSON.parse(readFileSync(packageJsonPath, 'utf8'))?.packageManager;
+    const name = typeof field === 'string' ? field.split('@')[0] : null;
+    return PACKAGE_MANAGERS.includes(name as PackageManager) ? (name as PackageManager) : null;
+  } catch {
+    // An unreadable package.json is reported by validate-sst-workspace, not here
+    return null;
+  }
+}
+
+function binaryIn(dir: string): string {
+  return join(dir, SSTConfig.NODE_MODULES, '.bin', SSTConfig.SST_COMMAND);
+}
+
+/**
+ * Work out how to run sst in a workspace, without the cache
+ */
+export function detectSSTCommand(workspaceRoot: string): SSTCommand {
+  const dirs = ancestors(workspaceRoot);
+
+  let packageManager: PackageManager = 'npm';
+  let packageManagerSource: SSTCommand['packageManagerSource'] = 'default';
+  let packageManagerFile: string | null = null;
+  // The nearest directory that says anything wins, so a monorepo package uses the root's lockfile
+  for (const dir of dirs) {
+    const packageJsonPath = join(dir, SSTConfig.PACKAGE_JSON);
+    const fromField = readPackageManagerField(packageJsonPath);
+    if (fromField) {
+      [packageManager, packageManagerSource, packageManagerFile] = [fromField, 'packageManager', packageJsonPath];
+      break;
+    }
+    const lockfile = LOCKFILES.find(([file]) => existsSync(join(dir, file)));
+    if (lockfile) {
+      [packageManager, packageManagerSource, packageManagerFile] = [lockfile[1], 'lockfile', join(dir, lockfile[0])];
+      break;
+    }
+  }
+
+  const binaryPath = dirs.map(binaryIn).find(path => existsSync(path)) ?? null;
+  const [command, ...args] = binaryPath ? [binaryPath] : EXEC_COMMANDS[packageManager];
+
+  return {
+    command,
+    args,
+    packageManager,
+    packageManagerSource,
+    packageManagerFile,
+    binaryPath,
+    detectedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * How to run sst in a workspace, detected once and cached. Detection runs
+ * again if the cached binary disappears, or if sst is installed in the
+ * workspace after it fell back to the package manager.
+ */
+export function resolveSSTCommand(workspaceRoot: string): SSTCommand {
+  const cached = cache.get(workspaceRoot);
+  const stale = cached && (cached.binaryPath ? !existsSync(cached.binaryPath) : existsSync(binaryIn(workspaceRoot)));
+  if (cached && !stale) return cached;
+
+  const detected = detectSSTCommand(workspaceRoot);
+  cache.set(workspaceRoot, detected);
+  return detected;
+}
+
+/**
+ * sst outside any workspace, fetched by npx; only sst-upgrade without a
+ * workspace uses it, since upgrading the CLI is the point there
+ */
+export function globalSSTCommand(): SSTCommand {
+  return {
+    command: SSTConfig.NPX_COMMAND,
+    args: ['--yes', SSTConfig.SST_COMMAND],
+    packageManager: 'npm',
+    packageManagerSource: 'default',
+    packageManagerFile: null,
+    binaryPath: null,
+    detectedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * The command line as a user would type it, with the binary relative to the workspace
+ */
+export function formatSSTCommand(workspaceRoot: string, sst: SSTCommand): string {
+  const command = sst.binaryPath ? relative(workspaceRoot, sst.binaryPath) || sst.binaryPath : sst.command;
+  return [command, ...sst.args].join(' ');
+}
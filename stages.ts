@@ -0,0 +1,215 @@
+import { GetParametersByPathCommand, SSMClient } from '@aws-sdk/client-ssm';
+import { existsSync, readFileSync } from 'fs';
+
+export interface SsmParameter {
+  name: string;
+  lastModified: Date | null;
+}
+
+/**
+ * Where stage discovery reads SSM parameters from. The server uses
+ * SsmParameterSource; tests can pass fixtures instead.
+ */
+export interface ParameterSource {
+  /** Every parameter under `path`, recursively */
+  listParameters(path: string): Promise<SsmParameter[]>;
+}
+
+export interface StageInfo {
+  app: string;
+  stage: string;
+  /** Most recent change to any of the stage's parameters */
+  lastModified: string | null;
+  /**
+   * SST v2 secrets and parameters kept in SSM for the stage. Null for SST v3
+   * stages, which only keep a passphrase there.
+   */
+  resourceCount: number | null;
+}
+
+export type StageDiscoveryErrorKind = 'auth' | 'region' | 'empty';
+
+export class StageDiscoveryError extends Error {
+  constructor(readonly kind: StageDiscoveryErrorKind, message: string, readonly cause?: unknown) {
+    super(message);
+    this.name = 'StageDiscoveryError';
+  }
+}
+
+export class AwsAuthError extends StageDiscoveryError {
+  constructor(message: string, cause?: unknown) {
+    super('auth', message, cause);
+    this.name = 'AwsAuthError';
+  }
+}
+
+export class AwsRegionError extends StageDiscoveryError {
+  constructor(message: string, cause?: unknown) {
+    super('region', message, cause);
+    this.name = 'AwsRegionError';
+  }
+}
+
+export class NoStagesFoundError extends StageDiscoveryError {
+  constructor(message: string) {
+    super('empty', message);
+    this.name = 'NoStagesFoundError';
+  }
+}
+
+// SST v3 keeps one passphrase per stage: /sst/passphrase/<app>/<stage>
+const PASSPHRASE_PATH = /^\/sst\/passphrase\/([^/]+)\/([^/]+)$/;
+// SST v2 secrets and parameters: /sst/<app>/<stage>/<Secret|Parameter>/<name>/value
+const STAGE_PARAMETER_PATH = /^\/sst\/([^/]+)\/([^/]+)\/(?:Secret|Parameter)\//;
+// Not stages: bootstrap data and v2 fallback secrets
+const RESERVED = ['bootstrap', 'passphrase'];
+const FALLBACK_STAGE = '.fallback';
+
+const AUTH_ERRORS = [
+  'CredentialsProviderError',
+  'ExpiredTokenException',
+  'ExpiredToken',
+  'UnrecognizedClientException',
+  'InvalidClientTokenId',
+  'InvalidSignatureException',
+  'AccessDeniedException',
+  'SignatureDoesNotMatch',
+];
+
+/**
+ * Reads parameters with the AWS SDK, paging through GetParametersByPath
+ */
+export class SsmParameterSource implements ParameterSource {
+  private client: SSMClient;
+
+  constructor(options: { region?: string; profile?: string; endpoint?: string } = {}) {
+    this.client = new SSMClient({
+      region: options.region,
+      profile: options.profile,
+      endpoint: options.endpoint,
+    });
+  }
+
+  async listParameters(path: string): Promise<SsmParameter[]> {
+    const parameters: SsmParameter[] = [];
+    let nextToken: string | undefined;
+
+    do {
+      const page = await this.client.send(new GetParametersByPathCommand({
+        Path: path,
+        Recursive: true,
+        NextToken: nextToken,
+      }));
+      for (const parameter of page.Parameters ?? []) {
+        if (parameter.Name) {
+          parameters.push({ name: parameter.Name, lastModified: parameter.LastModifiedDate ?? null });
+        }
+      }
+      nextToken = page.NextToken;
+    } while (nextToken);
+
+    return parameters;
+  }
+}
+
+/**
+ * Map SDK failures onto auth and region errors; anything else is rethrown
+ */
+function classifySdkError(error: unknown): never {
+  const err = error as { name?: string; message?: string; code?: string };
+  const name = err?.name ?? '';
+  const message = err?.message ?? String(error);
+
+  if (AUTH_ERRORS.includes(name) || /credential|security token|not authorized/i.test(message)) {
+    throw new AwsAuthError(`AWS credentials are missing or invalid: ${message}`, error);
+  }
+  if (/region is missing|invalid region|Region .* not (?:valid|supported)/i.test(message) || err?.code === 'ENOTFOUND') {
+    throw new AwsRegionError(`AWS region is missing or unreachable: ${message}`, error);
+  }
+  throw error;
+}
+
+/**
+ * Find deployed stages from the parameters SST writes to SSM. Throws
+ * NoStagesFoundError when the account has none (for `app`, if given).
+ */
+export async function discoverStages(source: ParameterSource, app?: string): Promise<StageInfo[]> {
+  let parameters: SsmParameter[];
+  try {
+    parameters = await source.listParameters('/sst/');
+  } catch (error) {
+    classifySdkError(error);
+  }
+
+  const stages = new Map<string, StageInfo>();
+  const track = (parameterApp: string, stage: string, parameter: SsmParameter, isResource: boolean) => {
+    const key = `${parameterApp}/${stage}`;
+    const info = stages.get(key) ?? { app: parameterApp, stage, lastModified: null, resourceCount: null };
+    const modified = parameter.lastModified?.toISOString() ?? null;
+    if (modified && (!info.lastModified || modified > info.lastModified)) info.lastModified = modified;
+    if (isResource) info.resourceCount = (info.resourceCount ?? 0) + 1;
+    stages.set(key, info);
+  };
+
+  for (const parameter of parameters) {
+    const passphrase = parameter.name.match(PASSPHRASE_PATH);
+    if (passphrase) {
+      track(passphrase[1], passphrase[2], parameter, false);
+      continue;
+    }
+    const stageParameter = parameter.name.match(STAGE_PARAMETER_PATH);
+    if (stageParameter && !RESERVED.includes(stageParameter[1]) && stageParameter[2] !== FALLBACK_STAGE) {
+      track(stageParameter[1], stageParameter[2], parameter, true);
+    }
+  }
+
+  const result = Array.from(stages.values())
+    .filter(info => !app || info.app === app)
+    .sort((a, b) => a.app.localeCompare(b.app) || a.stage.localeCompare(b.stage));
+
+  if (result.length === 0) {
+    throw new NoStagesFoundError(app ? `No deployed stages found for app "${app}"` : 'No deployed stages found');
+  }
+  return result;
+}
+
+// Start of the object app() (SST v3) or config() (v2) returns: `app(input) { return {` or `app: (input) => ({`
+const APP_RETURN = /\b(?:app|config)\s*(?::\s*(?:async\s*)?(?:function\s*)?)?\([^)]*\)\s*(?:=>\s*\(\s*\{|(?:=>\s*)?\{[^]*?\breturn\s*\{)/;
+const NAME_KEY = /^(?:\s|\/\/[^\n]*\n|\/\*[^]*?\*\/)*["']?name["']?\s*:\s*(["'`])([^"'`]+)\1/;
+
+/**
+ * Read the app name from sst.config.ts: the `name` key of the object that
+ * app() returns, not a `name` that belongs to a resource or a nested object
+ */
+export function readAppName(configPath: string): string | null {
+  if (!existsSync(configPath)) return null;
+  const source = readFileSync(configPath, 'utf8');
+  const start = source.match(APP_RETURN);
+  if (!start || start.index === undefined) return null;
+
+  // Walk the returned object, skipping strings and nested braces, and test each top-level key
+  let depth = 1;
+  for (let pos = start.index + start[0].length; pos < source.length && depth > 0; pos++) {
+    const ch = source[pos];
+    if (ch === '/' && (source[pos + 1] === '/' || source[pos + 1] === '*')) {
+      const close = source[pos + 1] === '/' ? source.indexOf('\n', pos) : source.indexOf('*/', pos + 2) + 1;
+      if (close <= 0) return null;
+      pos = close;
+      continue;
+    }
+    if (ch === '"' || ch === "'" || ch === '`') {
+      const close = source.indexOf(ch, pos + 1);
+      if (close < 0) return null;
+      pos = close;
+    } else if (ch === '{' || ch === '[' || ch === '(') {
+      depth++;
+    } else if (ch === '}' || ch === ']' || ch === ')') {
+      depth--;
+    }
+    if (depth === 1 && (pos === start.index + start[0].length || ch === ',' || ch === '{')) {
+      const key = source.slice(ch === ',' || ch === '{' ? pos + 1 : pos).match(NAME_KEY);
+      if (key) return key[2];
+    }
+  }
+  return null;
+}
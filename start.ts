@@ -1,14 +1,31 @@
 import { spawn, ChildProcess } from 'child_process';
 import stripAnsi from 'strip-ansi';
-import { createWriteStream, readFileSync, promises as fsPromises } from 'fs';
+import { readFileSync, promises as fsPromises } from 'fs';
 import { watch } from 'chokidar';
 import { EOL } from 'os';
-import psTree from 'ps-tree';
 import path from 'path';
 import yargs from 'yargs';
 import { hideBin } from 'yargs/helpers';
 import fs from 'fs';
 import { SSTConfig } from './config.js';
+import { envToRecord, parseEnv } from './env-file.js';
+import { getActiveEnvProfile } from './env-profiles.js';
+import { formatInfraChangeLine, loadInfraWatchSettings, recordInfraChange } from './infra-watch.js';
+import { RotatingLogWriter, archiveLog } from './log-files.js';
+import { Redactor } from './redact.js';
+import { stageFromArgs } from './secrets.js';
+import { resolveSSTCommand } from './sst-command.js';
+import { CONFIG_SCHEMA, getServerConfig } from './server-config.js';
+import { killProcessAndChildren } from './process-tree.js';
+import {
+    DEFAULT_RESTART_POLICY,
+    DevExit,
+    DevSupervisorState,
+    RestartPolicy,
+    describeExit,
+    restartDelay,
+    writeDevState,
+} from './dev-supervisor.js';
 
 // Parse command line arguments for project root
 const argv = yargs(hideBin(process.argv))
@@ -18,61 +35,179 @@ const argv = yargs(hideBin(process.argv))
     description: 'Path to the project root',
     default: '.',
   })
+  .option('profile', {
+    alias: 'p',
+    type: 'string',
+    description: 'Env profile to load (default: the active profile)',
+  })
+  .option('maxRestarts', {
+    type: 'number',
+    description: 'Restarts in a row after unexpected exits before giving up (0 disables)',
+    default: DEFAULT_RESTART_POLICY.maxRestarts,
+  })
+  .option('restartBackoffMs', {
+    type: 'number',
+    description: 'Delay before the first restart, doubled for each further one',
+    default: DEFAULT_RESTART_POLICY.backoffMs,
+  })
+  .option('log', {
+    type: 'boolean',
+    description: 'Write sst dev output to .sst/sst-mcp.log (--no-log when the MCP server writes it)',
+    default: true,
+  })
   .help()
   .parseSync();
 
 const projectRoot = path.resolve(argv.projectRoot as string);
 const logFilePath = SSTConfig.getLogPath(projectRoot);
-const envFilePath = SSTConfig.getEnvPath(projectRoot);
+const profilePath = SSTConfig.getEnvProfilePath(projectRoot);
+let profile = argv.profile ?? getActiveEnvProfile(projectRoot);
+let envFilePath = SSTConfig.getEnvPath(projectRoot, profile);
 
 let childProcess: ChildProcess | null = null;
+let logWriter: RotatingLogWriter | null = null;
+const redactor = new Redactor();
+let sstDevArgs = CONFIG_SCHEMA.sstDevArgs.default;
+let restartTimer: NodeJS.Timeout | null = null;
+// The start in progress, and the restart requested while it runs
+let starting: Promise<void> | null = null;
+let pendingRestart: { reason?: string } | null = null;
+let shuttingDown = false;
+// Children this script killed on purpose; their exit is not a crash
+const expectedExits = new WeakSet<ChildProcess>();
+
+const policy: RestartPolicy = {
+    ...DEFAULT_RESTART_POLICY,
+    maxRestarts: Math.max(0, argv.maxRestarts),
+    backoffMs: Math.max(0, argv.restartBackoffMs),
+};
+
+let state: DevSupervisorState = {
+    state: 'running',
+    supervisorPid: process.pid,
+    childPid: null,
+    profile,
+    restartCount: 0,
+    consecutiveFailures: 0,
+    lastExit: null,
+    nextRestartAt: null,
+    childStartedAt: null,
+    updatedAt: new Date().toISOString(),
+    policy,
+};
+
+function saveState(changes: Partial<DevSupervisorState>) {
+    state = { ...state, ...changes, updatedAt: new Date().toISOString() };
+    try {
+        writeDevState(projectRoot, state);
+    } catch (err) {
+        console.error('Failed to write supervisor state:', err);
+    }
+}
+
+function removePidFile() {
+    const pidFilePath = SSTConfig.getPIDPath(projectRoot);
+    try {
+        if (fs.existsSync(pidFilePath)) {
+            fs.unlinkSync(pidFilePath);
+        }
+    } catch (err) {
+        console.error(`Failed to remove PID file: ${pidFilePath}`, err);
+    }
+}
 
 function parseEnvFile(filePath: string): { [key: string]: string } {
-    const env: { [key: string]: string } = {};
     try {
-        const fileContent = readFileSync(filePath, 'utf8');
-        const lines = fileContent.split('\n');
-
-        for (const line of lines) {
-            const trimmedLine = line.trim();
-            if (trimmedLine && !trimmedLine.startsWith('#')) {
-                const match = trimmedLine.match(/^(?:export\s+)?([\w.-]+)=(.*)/);
-                if (match) {
-                    let value = match[2] || '';
-                    if ((value.startsWith('"') && value.endsWith('"')) || (value.startsWith("'") && value.endsWith("'"))) {
-                        value = value.substring(1, value.length - 1);
-                    }
-                    env[match[1]] = value;
-                }
-            }
+        const parsed = parseEnv(readFileSync(filePath, 'utf8'), { processEnvKeys: true });
+        for (const issue of parsed.issues) {
+            console.warn(`${filePath}:${issue.line}: ${issue.message}`);
         }
+        return envToRecord(parsed);
     } catch (error) {
         if (isNodeError(error) && error.code !== 'ENOENT') {
             console.error(`Error reading env file: ${error.message}`);
         }
+        return {};
     }
-    return env;
 }
 
 function isNodeError(error: unknown): error is NodeJS.ErrnoException {
     return error instanceof Error;
 }
 
-async function startProcess() {
+/**
+ * The one way sst dev is started or restarted. Starts run one at a time;
+ * requests made while one runs are coalesced into a single restart after it,
+ * with the latest reason given. `reason` is recorded as the last exit when a
+ * running child is replaced; without one the restart counts towards the
+ * crash loop.
+ */
+function requestRestart(reason?: string): Promise<void> {
+    pendingRestart = { reason: reason ?? pendingRestart?.reason };
+    if (restartTimer) {
+        clearTimeout(restartTimer);
+        restartTimer = null;
+    }
+    starting ??= runPendingRestarts().finally(() => {
+        starting = null;
+    });
+    return starting;
+}
+
+async function runPendingRestarts() {
+    while (pendingRestart && !shuttingDown) {
+        const next = pendingRestart;
+        pendingRestart = null;
+        try {
+            await startProcess(next.reason);
+        } catch (error) {
+            console.error(error);
+        }
+    }
+}
+
+/**
+ * Start sst dev, replacing the current child if there is one. Only called
+ * through requestRestart().
+ */
+async function startProcess(reason?: string) {
+    const replaced = childProcess !== null;
     if (childProcess) {
+        expectedExits.add(childProcess);
         if (childProcess.pid) {
             await killProcessAndChildren(childProcess.pid, 'SIGKILL');
         }
         childProcess = null;
         console.log('Restarting process...');
     }
-
-    await fsPromises.mkdir(path.dirname(logFilePath), { recursive: true });
-    const logStream = createWriteStream(logFilePath, { flags: 'a' });
+    // Stopped while the previous child was being killed
+    if (shuttingDown) return;
+    if (reason) {
+        // A deliberate restart is a fresh attempt, not part of a crash loop
+        const lastExit: DevExit = { code: null, signal: 'SIGKILL', reason, at: new Date().toISOString() };
+        saveState(replaced ? { lastExit, consecutiveFailures: 0 } : { consecutiveFailures: 0 });
+    }
 
     const env = parseEnvFile(envFilePath);
-    
-    console.log('Starting SST dev process...');
+    try {
+        // Secret values from the env profiles and the workspace patterns, reloaded on each start
+        redactor.loadWorkspace(projectRoot);
+    } catch (error) {
+        // Keep masking with what was loaded before rather than not starting
+        console.error(error instanceof Error ? error.message : String(error));
+    }
+    try {
+        sstDevArgs = getServerConfig(projectRoot).sstDevArgs;
+    } catch (error) {
+        // Keep the previous arguments rather than not starting
+        console.error(error instanceof Error ? error.message : String(error));
+    }
+    // The stage's secret values, so they are masked when sst dev prints them. Listed alongside
+    // sst dev rather than before it, so a slow `sst secret list` does not hold up the start.
+    const secretsLoaded = redactor.loadStageSecrets(projectRoot, stageFromArgs(sstDevArgs), { ...process.env, ...env })
+        .catch(error => console.error(`Could not load secrets to redact: ${error instanceof Error ? error.message : String(error)}`));
+
+    console.log(`Starting SST dev process (env profile: ${profile})...`);
     
     // Clean up stale SST server files before starting
     const sstDir = SSTConfig.getSSTDir(projectRoot);
@@ -93,7 +228,8 @@ async function startProcess() {
         }
     }
 
-    childProcess = spawn(SSTConfig.NPX_COMMAND, [SSTConfig.SST_COMMAND, ...SSTConfig.SST_DEV_ARGS], {
+    const sst = resolveSSTCommand(projectRoot);
+    const child = spawn(sst.command, [...sst.args, ...sstDevArgs], {
         stdio: ['pipe', 'pipe', 'pipe'],
         cwd: projectRoot,
         env: {
@@ -102,67 +238,100 @@ async function startProcess() {
         },
     });
 
+    childProcess = child;
+    const startedAt = Date.now();
+    saveState({
+        state: 'running',
+        childPid: child.pid ?? null,
+        profile,
+        restartCount: state.childStartedAt === null ? 0 : state.restartCount + 1,
+        nextRestartAt: null,
+        childStartedAt: new Date(startedAt).toISOString(),
+    });
+
     // Record the PID of the spawned process
-    if (childProcess.pid) {
+    if (child.pid) {
         const pidFilePath = SSTConfig.getPIDPath(projectRoot);
         try {
-            fs.writeFileSync(pidFilePath, String(childProcess.pid));
+            fs.writeFileSync(pidFilePath, String(child.pid));
         } catch (err) {
             console.error(`Failed to write PID file: ${pidFilePath}`, err);
         }
     }
 
-    childProcess.stdout?.on('data', (data: Buffer) => {
-        const text = data.toString();
-        const cleanedData = stripAnsi(text);
-        process.stdout.write(text);
-        logStream.write(cleanedData);
-    });
+    // Redacted a line at a time; what is left of a line is passed on when the child closes
+    const stdoutLines = redactor.lineBuffer();
+    const stderrLines = redactor.lineBuffer();
+    const forward = (text: string, target: NodeJS.WriteStream) => {
+        if (!text) return;
+        target.write(text);
+        logWriter?.write(stripAnsi(text));
+    };
 
-    childProcess.stderr?.on('data', (data: Buffer) => {
-        const text = data.toString();
-        const cleanedData = stripAnsi(text);
-        process.stderr.write(text);
-        logStream.write(cleanedData);
+    // Output is held, in order, until the secret values are known or REDACT_SECRETS_WAIT_MS has passed
+    let held: Array<() => void> | null = [];
+    const whenSecretsKnown = (run: () => void) => (held ? held.push(run) : run());
+    Promise.race([secretsLoaded, new Promise(resolve => setTimeout(resolve, SSTConfig.REDACT_SECRETS_WAIT_MS))]).then(() => {
+        const queued = held ?? [];
+        held = null;
+        for (const run of queued) run();
     });
 
-    childProcess.on('exit', (code) => {
+    child.stdout?.on('data', (data: Buffer) => whenSecretsKnown(() => forward(stdoutLines.write(data.toString()), process.stdout)));
+    child.stderr?.on('data', (data: Buffer) => whenSecretsKnown(() => forward(stderrLines.write(data.toString()), process.stderr)));
+    child.on('close', () => whenSecretsKnown(() => {
+        forward(stdoutLines.flush(), process.stdout);
+        forward(stderrLines.flush(), process.stderr);
+    }));
+
+    child.on('exit', (code, signal) => {
         console.log(`Process exited with code: ${code}`);
-        logStream.end();
-        // Remove the PID file on exit
-        const pidFilePath = SSTConfig.getPIDPath(projectRoot);
-        try {
-            if (fs.existsSync(pidFilePath)) {
-                fs.unlinkSync(pidFilePath);
-            }
-        } catch (err) {
-            console.error(`Failed to remove PID file: ${pidFilePath}`, err);
-        }
+        // A child replaced by a restart must not touch its successor's PID file
+        if (childProcess !== child) return;
         childProcess = null;
+        removePidFile();
+        if (shuttingDown || expectedExits.has(child)) return;
+        scheduleRestart(code, signal, Date.now() - startedAt);
     });
 }
 
-function killProcessAndChildren(pid: number, signal: NodeJS.Signals = 'SIGTERM'): Promise<void> {
-    return new Promise((resolve, reject) => {
-        psTree(pid, (err, children) => {
-            if (err) {
-                return reject(err);
-            }
-            const pids = [pid, ...children.map(p => parseInt(p.PID, 10))];
-            pids.forEach(p => {
-                try {
-                    process.kill(p, signal);
-                } catch (e) {
-                    // Ignore
-                }
-            });
-            resolve();
-        });
+/**
+ * Restart after an unexpected exit with exponential backoff, or give up
+ * once the child has failed `policy.maxRestarts` times in a row
+ */
+function scheduleRestart(code: number | null, signal: NodeJS.Signals | null, ranForMs: number) {
+    const reason = describeExit(code, signal);
+    const lastExit: DevExit = { code, signal, reason, at: new Date().toISOString() };
+    const failures = ranForMs >= policy.stableMs ? 1 : state.consecutiveFailures + 1;
+
+    if (failures > policy.maxRestarts) {
+        const gaveUp = policy.maxRestarts === 0 ? 'auto-restart is disabled' : `giving up after ${policy.maxRestarts} restart(s) in a row`;
+        console.error(`SST dev ${reason}; ${gaveUp}. Save the env file, or stop and start sst dev, to retry.`);
+        saveState({ state: 'crashed', childPid: null, consecutiveFailures: failures, lastExit, nextRestartAt: null });
+        return;
+    }
+
+    const delay = restartDelay(policy, failures);
+    console.log(`SST dev ${reason}. Restarting in ${delay}ms (attempt ${failures} of ${policy.maxRestarts})...`);
+    saveState({
+        state: 'restarting',
+        childPid: null,
+        consecutiveFailures: failures,
+        lastExit,
+        nextRestartAt: new Date(Date.now() + delay).toISOString(),
     });
+    restartTimer = setTimeout(() => {
+        restartTimer = null;
+        requestRestart();
+    }, delay);
 }
 
-
-async function handleExit() {
+async function handleExit(signal: NodeJS.Signals) {
+    shuttingDown = true;
+    if (restartTimer) {
+        clearTimeout(restartTimer);
+        restartTimer = null;
+    }
     if (childProcess?.pid) {
         try {
             await killProcessAndChildren(childProcess.pid);
@@ -170,15 +339,17 @@ async function handleExit() {
             console.error('Failed to kill process tree:', e);
         }
     }
-    // Remove the PID file on exit
-    const pidFilePath = path.join(projectRoot, '.sst', 'sst-dev.pid');
-    try {
-        if (fs.existsSync(pidFilePath)) {
-            fs.unlinkSync(pidFilePath);
-        }
-    } catch (err) {
-        console.error(`Failed to remove PID file: ${pidFilePath}`, err);
-    }
+    removePidFile();
+    // Detached first, so output the killed child flushes on close is not written after the end
+    const writer = logWriter;
+    logWriter = null;
+    await writer?.end(`\n=== SST Dev Ended at ${new Date().toISOString()} with code null ===\n`);
+    saveState({
+        state: 'stopped',
+        childPid: null,
+        nextRestartAt: null,
+        lastExit: { code: null, signal, reason: 'stopped', at: new Date().toISOString() },
+    });
     process.exit();
 }
 
@@ -186,17 +357,87 @@ process.on('SIGINT', handleExit);
 process.on('SIGTERM', handleExit);
 
 async function main() {
-    await startProcess();
+    if (argv.log) {
+        // One log per supervisor run; the previous run's log moves to .sst/logs/
+        await fsPromises.mkdir(path.dirname(logFilePath), { recursive: true });
+        archiveLog(projectRoot);
+        logWriter = new RotatingLogWriter(projectRoot, 'Dev');
+        logWriter.write(`\n=== SST Dev Started at ${new Date().toISOString()} ===\n`);
+    }
 
-    const watcher = watch(envFilePath, {
+    await requestRestart();
+
+    // Also watch the active profile marker so switch-sst-env-profile takes effect
+    const watcher = watch([envFilePath, profilePath], {
         persistent: true,
         ignoreInitial: true,
     });
 
-    watcher.on('change', async (path) => {
-        console.log(`${EOL}Detected change in ${path}. Restarting the process...`);
-        await startProcess();
+    const onChange = async (changedPath: string) => {
+        if (path.resolve(changedPath) === path.resolve(profilePath)) {
+            const next = getActiveEnvProfile(projectRoot);
+            if (next === profile) return;
+            console.log(`${EOL}Switched env profile from ${profile} to ${next}. Restarting the process...`);
+            watcher.unwatch(envFilePath);
+            const previous = profile;
+            profile = next;
+            envFilePath = SSTConfig.getEnvPath(projectRoot, profile);
+            watcher.add(envFilePath);
+            await requestRestart(`env profile switched from ${previous} to ${next}`);
+        } else {
+            console.log(`${EOL}Detected change in ${changedPath}. Restarting the process...`);
+            await requestRestart(`${path.basename(changedPath)} changed`);
+        }
+    };
+
+    watcher.on('add', onChange);
+    watcher.on('change', onChange);
+
+    watchInfra();
+}
+
+/**
+ * Record changes to sst.config.ts and infra/ as a pending redeploy. sst dev is
+ * not restarted here; the MCP server picks up the printed line and notifies
+ * the client or runs sst-restart-for-infra, depending on the workspace setting.
+ */
+function watchInfra() {
+    const infraWatcher = watch([SSTConfig.getConfigPath(projectRoot), SSTConfig.getInfraPath(projectRoot)], {
+        persistent: true,
+        ignoreInitial: true,
+        ignored: (watchedPath: string) => watchedPath.split(path.sep).includes(SSTConfig.NODE_MODULES),
     });
+
+    const changed = new Set<string>();
+    let flushTimer: NodeJS.Timeout | null = null;
+
+    // Editors and formatters often write several times; report the burst once
+    const flush = () => {
+        flushTimer = null;
+        const files = [...changed].sort();
+        changed.clear();
+        try {
+            if (loadInfraWatchSettings(projectRoot).mode === 'off') return;
+        } catch (err) {
+            console.error(err instanceof Error ? err.message : err);
+        }
+        try {
+            recordInfraChange(projectRoot, files);
+        } catch (err) {
+            console.error('Failed to record infra change:', err);
+        }
+        console.log(formatInfraChangeLine(files));
+    };
+
+    const onInfraChange = (changedPath: string) => {
+        changed.add(path.relative(projectRoot, changedPath));
+        if (flushTimer) clearTimeout(flushTimer);
+        flushTimer = setTimeout(flush, SSTConfig.INFRA_CHANGE_DEBOUNCE_MS);
+    };
+
+    infraWatcher.on('add', onInfraChange);
+    infraWatcher.on('change', onInfraChange);
+    infraWatcher.on('unlink', onInfraChange);
 }
 
 main().catch(console.error); 
\ No newline at end of file
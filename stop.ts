@@ -3,6 +3,8 @@
 import { readFileSync, unlinkSync, existsSync } from 'fs';
 import { join } from 'path';
 import { SSTConfig } from './config.js';
+import { readDevState, writeDevState } from './dev-supervisor.js';
+import { isProcessAlive } from './process-tree.js';
 
 interface StopOptions {
   projectRoot: string;
@@ -22,12 +24,55 @@ function parseArgs(): StopOptions {
   return { projectRoot };
 }
 
+/**
+ * Stop start.ts first so it does not restart sst dev once it is killed.
+ * Returns true if a supervisor was running.
+ */
+async function stopSupervisor(projectRoot: string): Promise<boolean> {
+  const state = readDevState(projectRoot);
+  if (!state || state.state === 'stopped') {
+    return false;
+  }
+
+  const pid = state.supervisorPid;
+  console.log(`Stopping SST dev supervisor with PID: ${pid}`);
+  try {
+    process.kill(pid, 'SIGTERM');
+  } catch (error) {
+    return false;
+  }
+
+  // The supervisor kills sst dev and records the stop itself
+  for (let waited = 0; waited < SSTConfig.KILL_GRACE_MS && isProcessAlive(pid); waited += 100) {
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+  if (isProcessAlive(pid)) {
+    console.log('Supervisor did not terminate gracefully, forcing kill...');
+    try {
+      process.kill(pid, 'SIGKILL');
+    } catch (error) {
+      // Already gone
+    }
+    writeDevState(projectRoot, {
+      ...state,
+      state: 'stopped',
+      childPid: null,
+      nextRestartAt: null,
+      updatedAt: new Date().toISOString(),
+    });
+  }
+  return true;
+}
+
 async function stopSST(projectRoot: string): Promise<void> {
   const pidFilePath = SSTConfig.getPIDPath(projectRoot);
+  const supervised = await stopSupervisor(projectRoot);
   
   // Check if PID file exists
   if (!existsSync(pidFilePath)) {
-    console.log('SST development process is not running (no PID file found)');
+    console.log(supervised
+      ? 'SST development process stopped successfully'
+      : 'SST development process is not running (no PID file found)');
     process.exit(0);
   }
 